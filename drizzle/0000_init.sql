@@ -0,0 +1,13 @@
+-- IF NOT EXISTS so databases created with `db:push` adopt this migration as their baseline
+CREATE TABLE IF NOT EXISTS "fortune" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"message" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "world" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"randomNumber" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "fortune_message_id_idx" ON "fortune" USING btree ("message","id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "world_random_number_id_idx" ON "world" USING btree ("randomNumber","id");
\ No newline at end of file
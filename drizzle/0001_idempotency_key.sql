@@ -0,0 +1,11 @@
+-- IF NOT EXISTS for databases that got the table from `db:push`
+CREATE TABLE IF NOT EXISTS "idempotency_key" (
+	"key" text PRIMARY KEY NOT NULL,
+	"fingerprint" text NOT NULL,
+	"status_code" integer,
+	"headers" jsonb,
+	"body" text,
+	"expires_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idempotency_key_expires_at_idx" ON "idempotency_key" USING btree ("expires_at");
\ No newline at end of file
@@ -0,0 +1,8 @@
+import type { FastifyRequest } from 'fastify';
+
+// Who per-client state (rate limits, idempotency keys) belongs to: the principal
+// authenticated by plugins/auth.ts, otherwise the IP
+export function clientId(request: FastifyRequest): string {
+  const principal = request.principal;
+  return principal ? `${principal.type}:${principal.id}` : `ip:${request.ip}`;
+}
@@ -0,0 +1,74 @@
+import { createHmac, KeyObject, timingSafeEqual, verify } from 'node:crypto';
+
+// Compact JWS verification for HS256/384/512 (shared secret) and RS256/384/512
+// (public key). Only algorithms with a configured key are accepted, so a token
+// can't pick `none` or sign HS256 with the RSA public key as the secret.
+
+export interface JwtVerifyOptions {
+  secret?: string;
+  publicKey?: KeyObject;
+  issuer?: string;
+  audience?: string;
+  clockToleranceSeconds: number;
+}
+
+export type JwtClaims = Record<string, unknown> & {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+};
+
+const HASHES: Record<string, string> = { 256: 'sha256', 384: 'sha384', 512: 'sha512' };
+
+function decodeJson(segment: string): Record<string, unknown> {
+  const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new Error('not an object');
+  return value;
+}
+
+function validSignature(alg: string, input: string, signature: Buffer, options: JwtVerifyOptions): boolean {
+  const family = alg.slice(0, 2);
+  const hash = HASHES[alg.slice(2)];
+  if (!hash) return false;
+  if (family === 'HS' && options.secret) {
+    const expected = createHmac(hash, options.secret).update(input).digest();
+    return expected.length === signature.length && timingSafeEqual(expected, signature);
+  }
+  if (family === 'RS' && options.publicKey) {
+    return verify(hash, Buffer.from(input), options.publicKey, signature);
+  }
+  return false;
+}
+
+// Returns the claims of a valid token, throws with the reason otherwise
+export function verifyJwt(token: string, options: JwtVerifyOptions): JwtClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new Error('Malformed token');
+
+  let header: Record<string, unknown>;
+  let claims: JwtClaims;
+  try {
+    header = decodeJson(parts[0]);
+    claims = decodeJson(parts[1]);
+  } catch {
+    throw new Error('Malformed token');
+  }
+
+  const alg = String(header.alg);
+  if (!validSignature(alg, `${parts[0]}.${parts[1]}`, Buffer.from(parts[2], 'base64url'), options)) {
+    throw new Error(`Invalid signature or unsupported algorithm ${alg}`);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const skew = options.clockToleranceSeconds;
+  if (typeof claims.exp === 'number' && now - skew >= claims.exp) throw new Error('Token expired');
+  if (typeof claims.nbf === 'number' && now + skew < claims.nbf) throw new Error('Token not yet valid');
+  if (options.issuer && claims.iss !== options.issuer) throw new Error('Unexpected issuer');
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) throw new Error('Unexpected audience');
+  }
+  return claims;
+}
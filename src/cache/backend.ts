@@ -0,0 +1,93 @@
+// Storage contract shared by every cache backend. Values are opaque strings,
+// serialization is handled by CacheUtils in plugins/redis.ts.
+
+export type CacheBackendName = 'memory' | 'redis' | 'upstash';
+
+// Holds up to `capacity` tokens and gains `refillPerSecond` back, used by plugins/rate-limit.ts
+export interface TokenBucket {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface TokenBucketResult {
+  allowed: boolean;
+  // Tokens left after this call, fractional while refilling
+  tokens: number;
+}
+
+export interface CacheBackend {
+  readonly name: CacheBackendName;
+  // Host the backend talks to, null for in-process backends
+  readonly host: string | null;
+
+  ping(): Promise<void>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+  // SET NX with expiry, resolves true when the key was written (used for locks)
+  setIfAbsent(key: string, value: string, ttlSeconds: number): Promise<boolean>;
+  // Takes `cost` tokens from the bucket at `key` if it has them, atomic across workers
+  takeTokens(key: string, bucket: TokenBucket, cost: number): Promise<TokenBucketResult>;
+  del(...keys: string[]): Promise<number>;
+  exists(key: string): Promise<boolean>;
+  // Deletes every key matching a Redis glob pattern except reserved ones, returns the number removed
+  clear(pattern: string): Promise<number>;
+  close(): Promise<void>;
+}
+
+// Keys other features keep in the cache backend (the buckets of plugins/rate-limit.ts).
+// clear() skips them whatever the pattern, so clearing the cache can't reset them.
+export const RESERVED_PREFIXES = ['ratelimit:'];
+
+export function isReserved(key: string): boolean {
+  return RESERVED_PREFIXES.some(prefix => key.startsWith(prefix));
+}
+
+// Converts a Redis glob (`*`, `?`, `[abc]`) into an anchored RegExp
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '*') source += '.*';
+    else if (ch === '?') source += '.';
+    else if (ch === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += '[' + pattern.slice(i + 1, end).replace(/\\/g, '\\\\') + ']';
+        i = end;
+      }
+    } else if (ch === '\\' && i + 1 < pattern.length) {
+      source += '\\' + pattern[++i];
+    } else {
+      source += ch.replace(/[.+^${}()|\]\\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Token bucket update shared by the Redis and Upstash backends. The bucket is
+// stored as `tokens:timestamp` and expires once it would be full again.
+// KEYS[1] = bucket, ARGV = capacity, refill per second, cost
+export const TAKE_TOKENS_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2]) / 1000
+local cost = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local tokens, ts = capacity, now
+local stored = redis.call('GET', KEYS[1])
+if stored then
+  local sep = string.find(stored, ':')
+  tokens = tonumber(string.sub(stored, 1, sep - 1))
+  ts = tonumber(string.sub(stored, sep + 1))
+end
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+local allowed = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+end
+redis.call('SET', KEYS[1], tostring(tokens) .. ':' .. now, 'PX', math.max(1, math.ceil((capacity - tokens) / rate)))
+return { allowed, tostring(tokens) }
+`;
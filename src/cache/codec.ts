@@ -0,0 +1,105 @@
+import { promisify } from 'node:util';
+import { brotliCompress, brotliDecompress, gunzip, gzip } from 'node:zlib';
+import { decode as msgpackDecode, encode as msgpackEncode } from '@msgpack/msgpack';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+const brotliAsync = promisify(brotliCompress);
+const unbrotliAsync = promisify(brotliDecompress);
+
+// Bump when the envelope layout changes, entries with another version are read as misses
+export const CODEC_VERSION = 'v1';
+
+export type CodecName = 'json' | 'msgpack';
+export type CompressionName = 'none' | 'gzip' | 'brotli';
+
+export const CODECS: CodecName[] = ['json', 'msgpack'];
+export const COMPRESSIONS: CompressionName[] = ['none', 'gzip', 'brotli'];
+
+export interface CodecOptions {
+  codec: CodecName;
+  compression: CompressionName;
+  // Serialized payloads smaller than this (bytes) are stored uncompressed
+  compressionThreshold: number;
+}
+
+export interface Codec {
+  // Tag written for new entries, e.g. `v1:msgpack+brotli`
+  readonly format: string;
+  // Produces `{version}:{codec}[+{compression}]:{payload}`, binary payloads are base64
+  encode(value: unknown): Promise<string>;
+  // Resolves undefined for entries written by an unknown version or codec
+  decode<T>(raw: string): Promise<T | undefined>;
+}
+
+function serialize(codec: CodecName, value: unknown): Buffer {
+  return codec === 'msgpack'
+    ? Buffer.from(msgpackEncode(value))
+    : Buffer.from(JSON.stringify(value), 'utf8');
+}
+
+function deserialize(codec: CodecName, bytes: Buffer): unknown {
+  return codec === 'msgpack'
+    ? msgpackDecode(bytes)
+    : JSON.parse(bytes.toString('utf8'));
+}
+
+async function compress(compression: CompressionName, bytes: Buffer): Promise<Buffer> {
+  if (compression === 'gzip') return await gzipAsync(bytes);
+  if (compression === 'brotli') return await brotliAsync(bytes);
+  return bytes;
+}
+
+async function decompress(compression: CompressionName, bytes: Buffer): Promise<Buffer> {
+  if (compression === 'gzip') return await gunzipAsync(bytes);
+  if (compression === 'brotli') return await unbrotliAsync(bytes);
+  return bytes;
+}
+
+export function createCodec(opts: CodecOptions): Codec {
+  if (!CODECS.includes(opts.codec)) {
+    throw new Error(`Unknown CACHE_CODEC "${opts.codec}", expected one of ${CODECS.join(', ')}`);
+  }
+  if (!COMPRESSIONS.includes(opts.compression)) {
+    throw new Error(`Unknown CACHE_COMPRESSION "${opts.compression}", expected one of ${COMPRESSIONS.join(', ')}`);
+  }
+
+  return {
+    format: `${CODEC_VERSION}:${opts.codec}${opts.compression === 'none' ? '' : `+${opts.compression}`}`,
+
+    async encode(value) {
+      const bytes = serialize(opts.codec, value);
+
+      if (opts.compression !== 'none' && bytes.length >= opts.compressionThreshold) {
+        const packed = await compress(opts.compression, bytes);
+        return `${CODEC_VERSION}:${opts.codec}+${opts.compression}:${packed.toString('base64')}`;
+      }
+
+      // Plain JSON stays human-readable in redis-cli
+      const payload = opts.codec === 'json' ? bytes.toString('utf8') : bytes.toString('base64');
+      return `${CODEC_VERSION}:${opts.codec}:${payload}`;
+    },
+
+    // Decoding follows the tag, not the current options, so switching codecs keeps old keys readable
+    async decode<T>(raw: string) {
+      const versionEnd = raw.indexOf(':');
+      const tagEnd = raw.indexOf(':', versionEnd + 1);
+      if (versionEnd === -1 || tagEnd === -1 || raw.slice(0, versionEnd) !== CODEC_VERSION) {
+        return undefined;
+      }
+
+      const [codec, compression = 'none'] = raw.slice(versionEnd + 1, tagEnd).split('+') as [CodecName, CompressionName?];
+      if (!CODECS.includes(codec) || !COMPRESSIONS.includes(compression)) {
+        return undefined;
+      }
+
+      const payload = raw.slice(tagEnd + 1);
+      if (codec === 'json' && compression === 'none') {
+        return JSON.parse(payload) as T;
+      }
+
+      const bytes = await decompress(compression, Buffer.from(payload, 'base64'));
+      return deserialize(codec, bytes) as T;
+    }
+  };
+}
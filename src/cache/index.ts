@@ -0,0 +1,49 @@
+import { CacheBackend } from './backend.js';
+import { createMemoryBackend } from './memory.js';
+import { createRedisBackend } from './redis.js';
+import { createUpstashBackend } from './upstash.js';
+
+export * from './backend.js';
+export { createMemoryBackend } from './memory.js';
+
+// `auto` picks REDIS_URL, then Upstash credentials, then the in-memory LRU
+export type CacheBackendSetting = 'auto' | 'memory' | 'redis' | 'upstash' | 'none';
+
+export const CACHE_BACKEND_SETTINGS: CacheBackendSetting[] = ['auto', 'memory', 'redis', 'upstash', 'none'];
+
+export interface CacheBackendConfig {
+  backend: CacheBackendSetting;
+  redisUrl?: string;
+  upstashUrl?: string;
+  upstashToken?: string;
+  memoryMaxEntries?: number;
+}
+
+// Returns null for `none`, the caller falls back to the no-op mock cache
+export function createCacheBackend(config: CacheBackendConfig): CacheBackend | null {
+  let backend = config.backend;
+  if (backend === 'auto') {
+    if (config.redisUrl) backend = 'redis';
+    else if (config.upstashUrl && config.upstashToken) backend = 'upstash';
+    else backend = 'memory';
+  }
+
+  switch (backend) {
+    case 'none':
+      return null;
+    case 'memory':
+      return createMemoryBackend({ maxEntries: config.memoryMaxEntries });
+    case 'redis':
+      if (!config.redisUrl) {
+        throw new Error('CACHE_BACKEND=redis requires REDIS_URL');
+      }
+      return createRedisBackend({ url: config.redisUrl });
+    case 'upstash':
+      if (!config.upstashUrl || !config.upstashToken) {
+        throw new Error('CACHE_BACKEND=upstash requires UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN');
+      }
+      return createUpstashBackend({ url: config.upstashUrl, token: config.upstashToken });
+    default:
+      throw new Error(`Unknown CACHE_BACKEND "${backend}", expected one of ${CACHE_BACKEND_SETTINGS.join(', ')}`);
+  }
+}
@@ -0,0 +1,68 @@
+import cluster from 'node:cluster';
+import type { Worker } from 'node:cluster';
+
+// Sent over the cluster IPC channel whenever a worker writes or deletes a key,
+// so every other worker can drop its L1 copy
+export interface InvalidationMessage {
+  type: 'cache:invalidate';
+  origin: number;
+  keys?: string[];
+  pattern?: string;
+}
+
+export type InvalidationHandler = (message: InvalidationMessage) => void;
+
+export interface InvalidationBus {
+  publish(change: { keys?: string[]; pattern?: string }): void;
+  subscribe(handler: InvalidationHandler): () => void;
+  close(): void;
+}
+
+export function isInvalidationMessage(message: unknown): message is InvalidationMessage {
+  return typeof message === 'object' && message !== null && (message as any).type === 'cache:invalidate';
+}
+
+// Worker side: publishes to the primary and listens for relayed messages.
+// Outside a cluster (e.g. `tsx src/app.ts`) publishing is a no-op.
+export function createInvalidationBus(): InvalidationBus {
+  const handlers = new Set<InvalidationHandler>();
+
+  const onMessage = (message: unknown) => {
+    if (!isInvalidationMessage(message) || message.origin === process.pid) return;
+    for (const handler of handlers) handler(message);
+  };
+
+  if (cluster.isWorker) {
+    process.on('message', onMessage);
+  }
+
+  return {
+    publish(change) {
+      if (!cluster.isWorker || !process.send || !process.connected) return;
+      const message: InvalidationMessage = { type: 'cache:invalidate', origin: process.pid, ...change };
+      process.send(message);
+    },
+
+    subscribe(handler) {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    },
+
+    close() {
+      handlers.clear();
+      process.off('message', onMessage);
+    }
+  };
+}
+
+// Primary side: forwards every invalidation to all workers except the sender
+export function relayInvalidations(): void {
+  cluster.on('message', (sender: Worker, message: unknown) => {
+    if (!isInvalidationMessage(message)) return;
+    for (const worker of Object.values(cluster.workers || {})) {
+      if (worker && worker.id !== sender.id && worker.isConnected()) {
+        worker.send(message);
+      }
+    }
+  });
+}
@@ -0,0 +1,106 @@
+import { CacheBackend, globToRegExp, isReserved } from './backend.js';
+
+export interface MemoryBackendOptions {
+  // Upper bound on entries, least recently used keys are evicted first
+  maxEntries?: number;
+}
+
+interface Entry {
+  value: string;
+  expiresAt: number; // 0 = no expiry
+}
+
+// Per-process LRU with TTL. Each cluster worker gets its own copy, so entries
+// are not shared between workers.
+export function createMemoryBackend(opts: MemoryBackendOptions = {}): CacheBackend {
+  const maxEntries = opts.maxEntries ?? 10000;
+  // Map keeps insertion order, re-inserting on access makes the first key the LRU one
+  const entries = new Map<string, Entry>();
+
+  function read(key: string): Entry | undefined {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt !== 0 && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  return {
+    name: 'memory',
+    host: null,
+
+    async ping() {},
+
+    async get(key) {
+      const entry = read(key);
+      if (!entry) return null;
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    async set(key, value, ttlSeconds) {
+      entries.delete(key);
+      entries.set(key, {
+        value,
+        expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : 0
+      });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+
+    async setIfAbsent(key, value, ttlSeconds) {
+      if (read(key)) return false;
+      await this.set(key, value, ttlSeconds);
+      return true;
+    },
+
+    // Same `tokens:timestamp` format as TAKE_TOKENS_SCRIPT
+    async takeTokens(key, { capacity, refillPerSecond }, cost) {
+      const rate = refillPerSecond / 1000;
+      const now = Date.now();
+      const stored = read(key)?.value.split(':').map(Number);
+      let tokens = stored ? Math.min(capacity, stored[0] + Math.max(0, now - stored[1]) * rate) : capacity;
+      const allowed = tokens >= cost;
+      if (allowed) tokens -= cost;
+      entries.delete(key);
+      entries.set(key, { value: `${tokens}:${now}`, expiresAt: now + Math.max(1, Math.ceil((capacity - tokens) / rate)) });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+      return { allowed, tokens };
+    },
+
+    async del(...keys) {
+      let removed = 0;
+      for (const key of keys) {
+        if (read(key) && entries.delete(key)) removed += 1;
+      }
+      return removed;
+    },
+
+    async exists(key) {
+      return read(key) !== undefined;
+    },
+
+    async clear(pattern) {
+      const re = globToRegExp(pattern);
+      let removed = 0;
+      for (const key of [...entries.keys()]) {
+        if (re.test(key) && !isReserved(key) && read(key)) {
+          entries.delete(key);
+          removed += 1;
+        }
+      }
+      return removed;
+    },
+
+    async close() {
+      entries.clear();
+    }
+  };
+}
@@ -0,0 +1,43 @@
+import { Counter, Gauge } from 'prom-client';
+import { register } from '../db/connection.js';
+
+export type CacheTier = 'l1' | 'l2';
+
+export interface TierCounters {
+  hits: number;
+  misses: number;
+}
+
+const tally: Record<CacheTier, TierCounters> = {
+  l1: { hits: 0, misses: 0 },
+  l2: { hits: 0, misses: 0 }
+};
+
+const tierLookups = new Counter({
+  name: 'cache_tier_lookups_total',
+  help: 'Cache lookups per tier (l1 = in-process, l2 = shared backend) and result.',
+  labelNames: ['tier', 'result'],
+  registers: [register]
+});
+
+new Gauge({
+  name: 'cache_tier_hit_ratio',
+  help: 'Hit ratio per cache tier since process start.',
+  labelNames: ['tier'],
+  registers: [register],
+  collect() {
+    for (const tier of Object.keys(tally) as CacheTier[]) {
+      const { hits, misses } = tally[tier];
+      if (hits + misses > 0) this.set({ tier }, hits / (hits + misses));
+    }
+  }
+});
+
+export function recordTierLookup(tier: CacheTier, hit: boolean): void {
+  tally[tier][hit ? 'hits' : 'misses'] += 1;
+  tierLookups.inc({ tier, result: hit ? 'hit' : 'miss' });
+}
+
+export function tierSnapshot(): Record<CacheTier, TierCounters> {
+  return { l1: { ...tally.l1 }, l2: { ...tally.l2 } };
+}
@@ -0,0 +1,74 @@
+import { Redis } from 'ioredis';
+import { CacheBackend, isReserved, TAKE_TOKENS_SCRIPT } from './backend.js';
+
+export interface RedisBackendOptions {
+  url: string;
+}
+
+// Native Redis protocol over TCP (REDIS_URL), for self-hosted or Railway Redis
+export function createRedisBackend(opts: RedisBackendOptions): CacheBackend {
+  const redis = new Redis(opts.url, {
+    lazyConnect: true,
+    maxRetriesPerRequest: 1,
+    enableOfflineQueue: false
+  });
+
+  return {
+    name: 'redis',
+    host: new URL(opts.url).host,
+
+    async ping() {
+      if (redis.status === 'wait') await redis.connect();
+      await redis.ping();
+    },
+
+    async get(key) {
+      return await redis.get(key);
+    },
+
+    async set(key, value, ttlSeconds) {
+      if (ttlSeconds) {
+        await redis.set(key, value, 'EX', ttlSeconds);
+      } else {
+        await redis.set(key, value);
+      }
+    },
+
+    async setIfAbsent(key, value, ttlSeconds) {
+      return (await redis.set(key, value, 'EX', ttlSeconds, 'NX')) === 'OK';
+    },
+
+    async takeTokens(key, { capacity, refillPerSecond }, cost) {
+      const [allowed, tokens] = await redis.eval(TAKE_TOKENS_SCRIPT, 1, key, capacity, refillPerSecond, cost) as [number, string];
+      return { allowed: allowed === 1, tokens: Number(tokens) };
+    },
+
+    async del(...keys) {
+      if (keys.length === 0) return 0;
+      return await redis.del(...keys);
+    },
+
+    async exists(key) {
+      return (await redis.exists(key)) === 1;
+    },
+
+    // SCAN instead of KEYS so large keyspaces don't block the server
+    async clear(pattern) {
+      let cursor = '0';
+      let cleared = 0;
+      do {
+        const [next, matched] = await redis.scan(cursor, 'MATCH', pattern, 'COUNT', 500);
+        cursor = next;
+        const keys = matched.filter(key => !isReserved(key));
+        if (keys.length > 0) {
+          cleared += await redis.del(...keys);
+        }
+      } while (cursor !== '0');
+      return cleared;
+    },
+
+    async close() {
+      await redis.quit();
+    }
+  };
+}
@@ -0,0 +1,75 @@
+import { Redis } from '@upstash/redis';
+import { CacheBackend, isReserved, TAKE_TOKENS_SCRIPT } from './backend.js';
+
+export interface UpstashBackendOptions {
+  url: string;
+  token: string;
+}
+
+// Upstash Redis over its REST API, one HTTP round-trip per command
+export function createUpstashBackend(opts: UpstashBackendOptions): CacheBackend {
+  // Values are already serialized by CacheUtils, so keep the client from parsing them again
+  const redis = new Redis({
+    url: opts.url,
+    token: opts.token,
+    automaticDeserialization: false
+  });
+
+  return {
+    name: 'upstash',
+    host: new URL(opts.url).host,
+
+    async ping() {
+      await redis.ping();
+    },
+
+    async get(key) {
+      return await redis.get<string>(key);
+    },
+
+    async set(key, value, ttlSeconds) {
+      if (ttlSeconds) {
+        await redis.setex(key, ttlSeconds, value);
+      } else {
+        await redis.set(key, value);
+      }
+    },
+
+    async setIfAbsent(key, value, ttlSeconds) {
+      return (await redis.set(key, value, { nx: true, ex: ttlSeconds })) === 'OK';
+    },
+
+    async takeTokens(key, { capacity, refillPerSecond }, cost) {
+      const [allowed, tokens] = await redis.eval<(string | number)[], [number, string]>(
+        TAKE_TOKENS_SCRIPT, [key], [capacity, refillPerSecond, cost]
+      );
+      return { allowed: Number(allowed) === 1, tokens: Number(tokens) };
+    },
+
+    async del(...keys) {
+      if (keys.length === 0) return 0;
+      return await redis.del(...keys);
+    },
+
+    async exists(key) {
+      return (await redis.exists(key)) === 1;
+    },
+
+    async clear(pattern) {
+      let cursor = '0';
+      let cleared = 0;
+      do {
+        const [next, matched] = await redis.scan(cursor, { match: pattern, count: 500 });
+        cursor = String(next);
+        const keys = matched.filter(key => !isReserved(key));
+        if (keys.length > 0) {
+          cleared += await redis.del(...keys);
+        }
+      } while (cursor !== '0');
+      return cleared;
+    },
+
+    // REST client holds no connection
+    async close() {}
+  };
+}
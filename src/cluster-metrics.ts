@@ -0,0 +1,173 @@
+import cluster from 'node:cluster';
+import type { Worker } from 'node:cluster';
+import { randomUUID } from 'node:crypto';
+import process from 'node:process';
+import { AggregatorRegistry, collectDefaultMetrics, Counter, Gauge, Registry } from 'prom-client';
+
+// Every worker has its own registry, so /metrics used to show whichever worker
+// answered. Now the answering worker asks the primary, which collects every
+// worker's registry over IPC and merges them into one exposition. Each series
+// carries a `worker` label (the cluster worker id, `primary` for the supervisor).
+
+// One worker's registry as plain data
+type RegistryJson = Awaited<ReturnType<Registry['getMetricsAsJSON']>>;
+
+// worker -> primary: scrape the whole cluster
+interface ScrapeRequest {
+  type: 'metrics:scrape';
+  id: string;
+}
+
+// primary -> worker: answer to ScrapeRequest
+interface ScrapeResult {
+  type: 'metrics:result';
+  id: string;
+  body?: string;
+  error?: string;
+}
+
+// primary -> worker: send your registry
+interface CollectRequest {
+  type: 'metrics:collect';
+  id: string;
+}
+
+// worker -> primary: answer to CollectRequest
+interface CollectResult {
+  type: 'metrics:report';
+  id: string;
+  metrics: RegistryJson;
+}
+
+type MetricsMessage = ScrapeRequest | ScrapeResult | CollectRequest | CollectResult;
+
+const TYPES = new Set(['metrics:scrape', 'metrics:result', 'metrics:collect', 'metrics:report']);
+
+function isMetricsMessage(message: unknown): message is MetricsMessage {
+  return typeof message === 'object' && message !== null && TYPES.has((message as any).type);
+}
+
+// Workers that don't report in time (busy, draining) are left out of the scrape
+const COLLECT_TIMEOUT_MS = 2000;
+const SCRAPE_TIMEOUT_MS = COLLECT_TIMEOUT_MS + 1000;
+
+// ========== PRIMARY ==========
+
+// The primary's own series, e.g. the supervisor's below and pg_stat_activity (db/pool-metrics.ts)
+export const primaryRegister = new Registry();
+
+// Supervisor metrics, only meaningful in the primary (see supervisor.ts)
+export const workerCrashes = new Counter({
+  name: 'cluster_worker_crashes_total',
+  help: 'Workers that exited without being asked to.',
+  registers: [primaryRegister]
+});
+
+export const workerRestarts = new Counter({
+  name: 'cluster_worker_restarts_total',
+  help: 'Workers forked to replace a crashed one.',
+  registers: [primaryRegister]
+});
+
+new Gauge({
+  name: 'cluster_workers',
+  help: 'Live worker processes.',
+  registers: [primaryRegister],
+  collect() {
+    this.set(Object.values(cluster.workers || {}).filter(w => w && !w.isDead()).length);
+  }
+});
+
+// Collect requests waiting for their report, by request id
+const pendingReports = new Map<string, (metrics: RegistryJson | null) => void>();
+
+function collect(worker: Worker): Promise<RegistryJson | null> {
+  return new Promise(resolve => {
+    const id = randomUUID();
+    const timer = setTimeout(() => done(null), COLLECT_TIMEOUT_MS);
+    const done = (metrics: RegistryJson | null) => {
+      clearTimeout(timer);
+      pendingReports.delete(id);
+      resolve(metrics);
+    };
+    pendingReports.set(id, done);
+    worker.send({ type: 'metrics:collect', id } satisfies CollectRequest, (err: Error | null) => err && done(null));
+  });
+}
+
+async function clusterMetrics(): Promise<string> {
+  const workers = Object.values(cluster.workers || {}).filter((w): w is Worker => !!w && w.isConnected());
+  const reports = await Promise.all(workers.map(collect));
+  const registry = AggregatorRegistry.aggregate([
+    await primaryRegister.getMetricsAsJSON(),
+    ...reports.filter((r): r is RegistryJson => r !== null)
+  ]);
+  return registry.metrics();
+}
+
+// Answers scrape requests from workers with the merged metrics of the cluster
+export function serveClusterMetrics(): void {
+  collectDefaultMetrics({ register: primaryRegister });
+  primaryRegister.setDefaultLabels({ worker: 'primary' });
+
+  cluster.on('message', (sender: Worker, message: unknown) => {
+    if (!isMetricsMessage(message)) return;
+    if (message.type === 'metrics:report') {
+      pendingReports.get(message.id)?.(message.metrics);
+      return;
+    }
+    if (message.type !== 'metrics:scrape') return;
+    const reply = (result: Omit<ScrapeResult, 'type' | 'id'>) => {
+      if (sender.isConnected()) sender.send({ type: 'metrics:result', id: message.id, ...result } satisfies ScrapeResult);
+    };
+    clusterMetrics().then(
+      body => reply({ body }),
+      (err: Error) => reply({ error: err.message })
+    );
+  });
+}
+
+// ========== WORKER ==========
+
+// Scrapes waiting for the primary, by request id
+const pendingScrapes = new Map<string, (result: ScrapeResult) => void>();
+
+// Labels this worker's series and answers the primary's collect requests
+export function reportMetrics(register: Registry): void {
+  if (!cluster.isWorker) return;
+  register.setDefaultLabels({ worker: String(cluster.worker!.id) });
+
+  process.on('message', (message: unknown) => {
+    if (!isMetricsMessage(message)) return;
+    if (message.type === 'metrics:result') {
+      pendingScrapes.get(message.id)?.(message);
+      return;
+    }
+    if (message.type !== 'metrics:collect') return;
+    register.getMetricsAsJSON().then(metrics => {
+      if (process.send && process.connected) {
+        process.send({ type: 'metrics:report', id: message.id, metrics } satisfies CollectResult);
+      }
+    });
+  });
+}
+
+// Metrics of the whole cluster (needs reportMetrics), or of `register` alone outside a cluster
+export function scrapeMetrics(register: Registry): Promise<string> {
+  if (!cluster.isWorker || !process.send || !process.connected) return register.metrics();
+
+  return new Promise((resolve, reject) => {
+    const id = randomUUID();
+    const timer = setTimeout(() => {
+      pendingScrapes.delete(id);
+      reject(new Error('Timed out waiting for the primary to collect metrics'));
+    }, SCRAPE_TIMEOUT_MS);
+    pendingScrapes.set(id, result => {
+      clearTimeout(timer);
+      pendingScrapes.delete(id);
+      if (result.error !== undefined) reject(new Error(result.error));
+      else resolve(result.body ?? '');
+    });
+    process.send!({ type: 'metrics:scrape', id } satisfies ScrapeRequest);
+  });
+}
@@ -0,0 +1,400 @@
+import 'dotenv/config';
+import { createPublicKey } from 'node:crypto';
+import { Type, Static, TSchema } from 'typebox';
+import Value from 'typebox/value';
+
+// Every environment variable the app reads, with its type and default. Values
+// are coerced ('30' -> 30, 'false' -> false) and checked once at startup, and
+// the rest of the code imports `config` instead of touching process.env.
+
+const Int = (min: number, fallback: number, description?: string) =>
+  Type.Integer({ minimum: min, default: fallback, description });
+const Flag = (fallback: boolean) => Type.Boolean({ default: fallback });
+const OneOf = <T extends string>(values: T[], fallback: T) => Type.Enum(values, { default: fallback });
+// Token bucket refill, fractions allowed (0.1 = one token every 10 seconds)
+const PerSecond = (fallback: number) => Type.Number({
+  exclusiveMinimum: 0,
+  default: fallback,
+  expected: 'a number of tokens per second above 0'
+});
+const PostgresUrl = Type.String({ pattern: '^postgres(ql)?://' });
+// Histogram bucket boundaries in seconds, e.g. '0.01,0.1,1'
+const Buckets = (fallback: string) => Type.String({
+  pattern: '^\\s*\\d*\\.?\\d+(\\s*,\\s*\\d*\\.?\\d+)*\\s*$',
+  default: fallback,
+  expected: 'a comma-separated list of seconds'
+});
+
+const EnvSchema = Type.Object({
+  NODE_ENV: Type.String({ default: 'development' }),
+
+  // Server
+  PORT: Type.Integer({ minimum: 1, maximum: 65535, default: 3000 }),
+  HOST: Type.String({ default: '0.0.0.0' }),
+  WORKERS: Type.Integer({ minimum: 0, maximum: 12, default: 0, description: '0 = one per CPU, up to 12' }),
+  LOG_LEVEL: OneOf(['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'], 'info'),
+  FASTIFY_KEEP_ALIVE_TIMEOUT: Int(0, 90000),
+  FASTIFY_CONNECTION_TIMEOUT: Int(0, 30000),
+  FASTIFY_BODY_LIMIT: Int(1, 1048576),
+  CORS_ORIGIN: Type.Optional(Type.String({ minLength: 1 })),
+  SWAGGER_UI_ENABLED: Flag(true),
+  CONFIG_ROUTE_ENABLED: Type.Optional(Type.Boolean()),
+
+  // Cluster supervisor
+  WORKER_RESTART_DELAY_MS: Int(0, 500, 'first restart delay, doubled per recent crash'),
+  WORKER_RESTART_MAX_DELAY_MS: Int(0, 30000),
+  WORKER_CRASH_LOOP_LIMIT: Int(1, 10, 'crashes within the window that stop restarts'),
+  WORKER_CRASH_LOOP_WINDOW_MS: Int(1000, 60000),
+  SHUTDOWN_TIMEOUT_MS: Int(0, 10000, 'how long in-flight requests get to finish'),
+  SHUTDOWN_READINESS_DELAY_MS: Int(0, 0, 'how long /health/ready fails before the server stops accepting'),
+
+  // Health checks
+  HEALTH_CHECK_TIMEOUT_MS: Int(1, 1000),
+  HEALTH_EVENT_LOOP_LAG_MS: Int(1, 200),
+  HEALTH_POOL_WAITING_MAX: Int(0, 50),
+
+  // Database
+  DATABASE_URL: Type.Optional(PostgresUrl),
+  DATABASE_REPLICA_URLS: Type.Optional(Type.String()),
+  DB_POOL_MAX: Int(1, 100),
+  DB_POOL_MIN: Int(0, 10),
+  DB_POOL_IDLE_TIMEOUT: Int(0, 30000),
+  DB_POOL_CONNECTION_TIMEOUT: Int(0, 5000),
+  DB_STATEMENT_TIMEOUT: Int(0, 30000),
+  DB_REPLICA_HEALTH_INTERVAL: Int(100, 5000),
+  DB_READ_YOUR_WRITES_MS: Int(0, 2000),
+  MIGRATIONS_ENABLED: Flag(true),
+  MIGRATIONS_ALLOW_DRIFT: Flag(false),
+  BULK_MAX_BATCH_SIZE: Type.Integer({ minimum: 1, maximum: 10000, default: 1000 }),
+
+  // Authentication (plugins/auth.ts)
+  AUTH_ENABLED: Type.Optional(Type.Boolean()),
+  AUTH_API_KEYS: Type.Optional(Type.String({ minLength: 1 })),
+  AUTH_JWT_SECRET: Type.Optional(Type.String({ minLength: 32, expected: 'a secret of at least 32 characters' })),
+  AUTH_JWT_PUBLIC_KEY: Type.Optional(Type.String({ minLength: 1 })),
+  AUTH_JWT_ISSUER: Type.Optional(Type.String({ minLength: 1 })),
+  AUTH_JWT_AUDIENCE: Type.Optional(Type.String({ minLength: 1 })),
+  AUTH_JWT_ROLES_CLAIM: Type.String({ minLength: 1, default: 'roles' }),
+  AUTH_JWT_CLOCK_TOLERANCE_SECONDS: Int(0, 30),
+
+  // Idempotency-Key (plugins/idempotency.ts)
+  IDEMPOTENCY_TTL_SECONDS: Int(1, 86400, 'how long a stored response is replayed'),
+  IDEMPOTENCY_PENDING_TTL_SECONDS: Int(1, 600, 'how long a key stays claimed by a request that never finishes'),
+
+  // Load shedding (plugins/overload.ts)
+  OVERLOAD_ENABLED: Flag(true),
+  OVERLOAD_MAX_CONCURRENT: Int(1, 200, 'requests in progress per worker, critical routes excluded'),
+  OVERLOAD_POOL_WAITING_MAX: Int(1, 50),
+  OVERLOAD_EVENT_LOOP_LAG_MS: Int(1, 200),
+  OVERLOAD_RETRY_AFTER_SECONDS: Int(1, 1),
+
+  // Rate limiting (plugins/rate-limit.ts), per client. Off by default, benchmarks come from one machine
+  RATE_LIMIT_ENABLED: Flag(false),
+  RATE_LIMIT_CAPACITY: Int(1, 200, 'burst size of a client across regular routes'),
+  RATE_LIMIT_REFILL_PER_SECOND: PerSecond(100),
+  RATE_LIMIT_HEAVY_CAPACITY: Int(1, 5, 'burst size per heavy route (/load-test, bulk, export, import)'),
+  RATE_LIMIT_HEAVY_REFILL_PER_SECOND: PerSecond(0.1),
+
+  // Metrics
+  METRICS_HTTP_BUCKETS: Buckets('0.001,0.005,0.01,0.025,0.05,0.1,0.25,0.5,1,2.5,5,10'),
+  METRICS_DB_BUCKETS: Buckets('0.0005,0.001,0.0025,0.005,0.01,0.025,0.05,0.1,0.25,0.5,1,5'),
+
+  // Cache
+  CACHE_BACKEND: OneOf(['auto', 'memory', 'redis', 'upstash', 'none'], 'auto'),
+  REDIS_URL: Type.Optional(Type.String({ pattern: '^rediss?://' })),
+  UPSTASH_REDIS_REST_URL: Type.Optional(Type.String({ pattern: '^https?://' })),
+  UPSTASH_REDIS_REST_TOKEN: Type.Optional(Type.String({ minLength: 1 })),
+  CACHE_MEMORY_MAX_ENTRIES: Int(1, 10000),
+  CACHE_L1_ENABLED: Flag(true),
+  CACHE_L1_TTL: Int(1, 30),
+  CACHE_STALE_TTL: Int(0, 0),
+  CACHE_LOCK_ENABLED: Flag(false),
+  CACHE_LOCK_TTL: Int(1, 5),
+  CACHE_LOCK_WAIT_MS: Int(0, 2000),
+  CACHE_CODEC: OneOf(['json', 'msgpack'], 'json'),
+  CACHE_COMPRESSION: OneOf(['none', 'gzip', 'brotli'], 'gzip'),
+  CACHE_COMPRESSION_THRESHOLD: Int(0, 1024)
+});
+
+type Env = Static<typeof EnvSchema>;
+
+// Unknown variables with these prefixes are most likely typos of ours
+const OWN_PREFIXES = ['DB_', 'DATABASE_', 'CACHE_', 'FASTIFY_', 'MIGRATIONS_', 'BULK_', 'SWAGGER_', 'CONFIG_', 'WORKER_', 'SHUTDOWN_', 'METRICS_', 'HEALTH_', 'OVERLOAD_', 'RATE_LIMIT_', 'AUTH_', 'IDEMPOTENCY_'];
+
+// Values that never leave the process unmasked (see redact)
+const SECRET_KEYS = new Set(['token', 'password', 'secret', 'key']);
+
+// Each role includes the ones before it: admin can do everything write can
+export const ROLES = ['read', 'write', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export interface ApiKey {
+  // Identifies the caller in logs and rate limits, the key itself is never logged
+  name: string;
+  key: string;
+  role: Role;
+}
+
+// AUTH_API_KEYS=name:key:role,... e.g. prometheus:k3y:read,ci:0ther:write
+function apiKeys(list: string | undefined): ApiKey[] {
+  return (list || '').split(',').map(e => e.trim()).filter(Boolean).map(entry => {
+    const [name, key, role] = entry.split(':');
+    return { name, key, role: role as Role };
+  });
+}
+
+// PEM in a single-line variable has its newlines escaped as \n
+function pem(value: string | undefined): string | undefined {
+  return value?.replace(/\\n/g, '\n');
+}
+
+function buckets(list: string): number[] {
+  return list.split(',').map(Number);
+}
+
+function distance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cur = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = cur;
+    }
+  }
+  return row[b.length];
+}
+
+interface Constraint {
+  // Overrides the message derived from the other keywords
+  expected?: string;
+  enum?: string[];
+  type?: string;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+}
+
+function describe(schema: Constraint): string {
+  if (schema.expected) return schema.expected;
+  if (schema.enum) return `one of ${schema.enum.join(', ')}`;
+  if (schema.type === 'integer') {
+    return schema.maximum !== undefined ? `an integer from ${schema.minimum} to ${schema.maximum}` : `an integer >= ${schema.minimum}`;
+  }
+  if (schema.type === 'boolean') return 'true or false';
+  if (schema.pattern) return `a string matching ${schema.pattern}`;
+  return 'a non-empty string';
+}
+
+// Returns the parsed settings, or throws with one line per problem
+export function parseEnv(source: NodeJS.ProcessEnv): Env {
+  const known = Object.keys(EnvSchema.properties);
+  const problems: string[] = [];
+
+  const input: Record<string, unknown> = {};
+  for (const key of known) {
+    const value = source[key]?.trim();
+    if (value) input[key] = value;
+  }
+
+  for (const key of Object.keys(source)) {
+    if (known.includes(key) || !OWN_PREFIXES.some(p => key.startsWith(p))) continue;
+    const guess = known.find(k => distance(k, key) <= 2);
+    problems.push(`${key} is not a known setting${guess ? ` (did you mean ${guess}?)` : ''}`);
+  }
+
+  const env = Value.Convert(EnvSchema, Value.Default(EnvSchema, { ...input })) as Record<string, unknown>;
+  for (const error of Value.Errors(EnvSchema, env)) {
+    const key = error.instancePath.replace(/^\//, '');
+    const schema = (EnvSchema.properties as Record<string, TSchema & Constraint>)[key];
+    if (!schema) continue;
+    problems.push(`${key}=${JSON.stringify(input[key])} must be ${describe(schema)}`);
+  }
+
+  if (problems.length === 0) {
+    const valid = env as Env;
+    if (valid.DB_POOL_MIN > valid.DB_POOL_MAX) {
+      problems.push(`DB_POOL_MIN (${valid.DB_POOL_MIN}) must not exceed DB_POOL_MAX (${valid.DB_POOL_MAX})`);
+    }
+    if (valid.WORKER_RESTART_DELAY_MS > valid.WORKER_RESTART_MAX_DELAY_MS) {
+      problems.push(`WORKER_RESTART_DELAY_MS (${valid.WORKER_RESTART_DELAY_MS}) must not exceed WORKER_RESTART_MAX_DELAY_MS (${valid.WORKER_RESTART_MAX_DELAY_MS})`);
+    }
+    for (const key of ['METRICS_HTTP_BUCKETS', 'METRICS_DB_BUCKETS'] as const) {
+      if (buckets(valid[key]).some((b, i, all) => i > 0 && b <= all[i - 1])) {
+        problems.push(`${key} must be in ascending order`);
+      }
+    }
+    if (valid.CACHE_BACKEND === 'redis' && !valid.REDIS_URL) {
+      problems.push('CACHE_BACKEND=redis requires REDIS_URL');
+    }
+    if (valid.CACHE_BACKEND === 'upstash' && !(valid.UPSTASH_REDIS_REST_URL && valid.UPSTASH_REDIS_REST_TOKEN)) {
+      problems.push('CACHE_BACKEND=upstash requires UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN');
+    }
+    for (const { name, key, role } of apiKeys(valid.AUTH_API_KEYS)) {
+      if (!name || !key || !(ROLES as readonly string[]).includes(role)) {
+        problems.push(`AUTH_API_KEYS entries must be name:key:role with role one of ${ROLES.join(', ')} (got one for "${name}")`);
+      }
+    }
+    if (valid.AUTH_JWT_PUBLIC_KEY) {
+      try {
+        createPublicKey(pem(valid.AUTH_JWT_PUBLIC_KEY)!);
+      } catch {
+        problems.push('AUTH_JWT_PUBLIC_KEY must be a PEM encoded public key');
+      }
+    }
+    // A claim that expires while its request still runs lets a retry execute it a second time
+    if (valid.IDEMPOTENCY_PENDING_TTL_SECONDS * 1000 <= valid.DB_STATEMENT_TIMEOUT) {
+      problems.push(`IDEMPOTENCY_PENDING_TTL_SECONDS (${valid.IDEMPOTENCY_PENDING_TTL_SECONDS}) must be longer than DB_STATEMENT_TIMEOUT (${valid.DB_STATEMENT_TIMEOUT}ms)`);
+    }
+    if (valid.AUTH_ENABLED && !valid.AUTH_API_KEYS && !valid.AUTH_JWT_SECRET && !valid.AUTH_JWT_PUBLIC_KEY) {
+      problems.push('AUTH_ENABLED=true requires AUTH_API_KEYS, AUTH_JWT_SECRET or AUTH_JWT_PUBLIC_KEY');
+    }
+    for (const url of (valid.DATABASE_REPLICA_URLS || '').split(',').map(u => u.trim()).filter(Boolean)) {
+      if (!/^postgres(ql)?:\/\//.test(url)) problems.push(`DATABASE_REPLICA_URLS entry "${url}" must start with postgres://`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration:\n  - ${problems.join('\n  - ')}`);
+  }
+  return env as Env;
+}
+
+function buildConfig(env: Env) {
+  return {
+    env: env.NODE_ENV,
+    server: {
+      port: env.PORT,
+      host: env.HOST,
+      workers: env.WORKERS,
+      logLevel: env.LOG_LEVEL,
+      keepAliveTimeoutMs: env.FASTIFY_KEEP_ALIVE_TIMEOUT,
+      connectionTimeoutMs: env.FASTIFY_CONNECTION_TIMEOUT,
+      bodyLimitBytes: env.FASTIFY_BODY_LIMIT,
+      // true reflects the request origin
+      corsOrigin: env.CORS_ORIGIN ?? true,
+      swaggerUi: env.SWAGGER_UI_ENABLED,
+      configRoute: env.CONFIG_ROUTE_ENABLED ?? env.NODE_ENV !== 'production',
+      shutdownTimeoutMs: env.SHUTDOWN_TIMEOUT_MS,
+      readinessDelayMs: env.SHUTDOWN_READINESS_DELAY_MS
+    },
+    health: {
+      checkTimeoutMs: env.HEALTH_CHECK_TIMEOUT_MS,
+      // p99 event-loop delay since the previous readiness check
+      eventLoopLagMs: env.HEALTH_EVENT_LOOP_LAG_MS,
+      // Checkouts queued on one pool
+      poolWaitingMax: env.HEALTH_POOL_WAITING_MAX
+    },
+    supervisor: {
+      restartDelayMs: env.WORKER_RESTART_DELAY_MS,
+      restartMaxDelayMs: env.WORKER_RESTART_MAX_DELAY_MS,
+      crashLoopLimit: env.WORKER_CRASH_LOOP_LIMIT,
+      crashLoopWindowMs: env.WORKER_CRASH_LOOP_WINDOW_MS
+    },
+    db: {
+      url: env.DATABASE_URL,
+      replicaUrls: (env.DATABASE_REPLICA_URLS || '').split(',').map(u => u.trim()).filter(Boolean),
+      pool: {
+        max: env.DB_POOL_MAX,
+        min: env.DB_POOL_MIN,
+        idleTimeoutMs: env.DB_POOL_IDLE_TIMEOUT,
+        connectionTimeoutMs: env.DB_POOL_CONNECTION_TIMEOUT,
+        statementTimeoutMs: env.DB_STATEMENT_TIMEOUT
+      },
+      replicaHealthIntervalMs: env.DB_REPLICA_HEALTH_INTERVAL,
+      readYourWritesMs: env.DB_READ_YOUR_WRITES_MS,
+      migrations: {
+        enabled: env.MIGRATIONS_ENABLED,
+        allowDrift: env.MIGRATIONS_ALLOW_DRIFT
+      },
+      bulkMaxBatchSize: env.BULK_MAX_BATCH_SIZE
+    },
+    auth: {
+      // On as soon as any credential is configured
+      enabled: env.AUTH_ENABLED ?? Boolean(env.AUTH_API_KEYS || env.AUTH_JWT_SECRET || env.AUTH_JWT_PUBLIC_KEY),
+      apiKeys: apiKeys(env.AUTH_API_KEYS),
+      jwt: {
+        secret: env.AUTH_JWT_SECRET,
+        publicKey: pem(env.AUTH_JWT_PUBLIC_KEY),
+        issuer: env.AUTH_JWT_ISSUER,
+        audience: env.AUTH_JWT_AUDIENCE,
+        rolesClaim: env.AUTH_JWT_ROLES_CLAIM,
+        clockToleranceSeconds: env.AUTH_JWT_CLOCK_TOLERANCE_SECONDS
+      }
+    },
+    idempotency: {
+      ttlSeconds: env.IDEMPOTENCY_TTL_SECONDS,
+      pendingTtlSeconds: env.IDEMPOTENCY_PENDING_TTL_SECONDS
+    },
+    overload: {
+      enabled: env.OVERLOAD_ENABLED,
+      maxConcurrent: env.OVERLOAD_MAX_CONCURRENT,
+      poolWaitingMax: env.OVERLOAD_POOL_WAITING_MAX,
+      eventLoopLagMs: env.OVERLOAD_EVENT_LOOP_LAG_MS,
+      retryAfterSeconds: env.OVERLOAD_RETRY_AFTER_SECONDS
+    },
+    rateLimit: {
+      enabled: env.RATE_LIMIT_ENABLED,
+      // Shared by every route without its own bucket
+      default: { capacity: env.RATE_LIMIT_CAPACITY, refillPerSecond: env.RATE_LIMIT_REFILL_PER_SECOND },
+      // Per route, set on expensive routes with `config: { rateLimit: config.rateLimit.heavy }`
+      heavy: { capacity: env.RATE_LIMIT_HEAVY_CAPACITY, refillPerSecond: env.RATE_LIMIT_HEAVY_REFILL_PER_SECOND }
+    },
+    metrics: {
+      httpBuckets: buckets(env.METRICS_HTTP_BUCKETS),
+      dbBuckets: buckets(env.METRICS_DB_BUCKETS)
+    },
+    cache: {
+      backend: env.CACHE_BACKEND,
+      redisUrl: env.REDIS_URL,
+      upstash: {
+        url: env.UPSTASH_REDIS_REST_URL,
+        token: env.UPSTASH_REDIS_REST_TOKEN
+      },
+      memoryMaxEntries: env.CACHE_MEMORY_MAX_ENTRIES,
+      l1: {
+        enabled: env.CACHE_L1_ENABLED,
+        ttlSeconds: env.CACHE_L1_TTL
+      },
+      staleSeconds: env.CACHE_STALE_TTL,
+      lock: {
+        enabled: env.CACHE_LOCK_ENABLED,
+        ttlSeconds: env.CACHE_LOCK_TTL,
+        waitMs: env.CACHE_LOCK_WAIT_MS
+      },
+      codec: env.CACHE_CODEC,
+      compression: env.CACHE_COMPRESSION,
+      compressionThresholdBytes: env.CACHE_COMPRESSION_THRESHOLD
+    }
+  };
+}
+
+export type Config = ReturnType<typeof buildConfig>;
+
+function load(): Config {
+  try {
+    return buildConfig(parseEnv(process.env));
+  } catch (err) {
+    // Every process (primary, workers, scripts) stops here before doing anything
+    console.error(`❌ ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+export const config: Config = load();
+
+// Copy of `value` with tokens/passwords masked and credentials stripped from URLs
+export function redact(value: unknown, key = ''): unknown {
+  if (value === undefined || value === null) return value ?? null;
+  if (SECRET_KEYS.has(key)) return '[redacted]';
+  if (Array.isArray(value)) return value.map(v => redact(v));
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+  }
+  if (typeof value === 'string' && /^[a-z][a-z0-9+.-]*:\/\/[^/]*@/i.test(value)) {
+    return value.replace(/^([a-z][a-z0-9+.-]*:\/\/)([^/]*)@/i, (_, scheme: string, auth: string) =>
+      `${scheme}${auth.includes(':') ? `${auth.split(':')[0]}:[redacted]` : '[redacted]'}@`);
+  }
+  return value;
+}
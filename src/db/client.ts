@@ -0,0 +1,124 @@
+import type { Readable } from 'node:stream';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { Pool, PoolClient } from 'pg';
+import { pool as defaultPool } from './connection.js';
+import { isReplica, markReplicaDown, pinToPrimary, readPool } from './routing.js';
+import { recordDbTime, recordPoolWait } from './timing.js';
+
+// 'read' picks a replica per request (see db/routing.ts), 'fresh' reads the primary without pinning
+export type PoolTarget = Pool | 'read' | 'fresh';
+
+// Requests with work on the primary that finished without an error, so a write may have committed
+const committed = new WeakSet<FastifyRequest>();
+
+// Whether an error response of this request may still have changed data (see plugins/idempotency.ts)
+export function mayHaveCommitted(request: FastifyRequest): boolean {
+  return committed.has(request);
+}
+
+// Checking out from the primary pins the request to it. A replica that can't
+// hand out a connection is marked down and the primary serves the read.
+async function connect(reply: FastifyReply, target: PoolTarget): Promise<PoolClient> {
+  if (target === 'fresh') return await defaultPool.connect();
+  if (target !== 'read') {
+    if (target === defaultPool) pinToPrimary(reply);
+    return await target.connect();
+  }
+
+  const pool = readPool(reply.request);
+  if (!isReplica(pool)) return await pool.connect();
+  try {
+    return await pool.connect();
+  } catch (err) {
+    markReplicaDown(pool, err as Error);
+    return await defaultPool.connect();
+  }
+}
+
+// Checks out a client, runs `fn` and always releases it. Records how long the
+// checkout waited (X-Pool-Wait) and how long `fn` took (X-DB-Time), see db/timing.ts.
+// Defaults to the primary, reads that may see replica lag use withReadClient.
+export async function withClient<T>(
+  reply: FastifyReply,
+  fn: (client: PoolClient) => Promise<T>,
+  pool: PoolTarget = defaultPool
+): Promise<T> {
+  const w0 = process.hrtime.bigint();
+  const client = await connect(reply, pool);
+  recordPoolWait(reply, Number(process.hrtime.bigint() - w0) / 1e6);
+
+  const q0 = process.hrtime.bigint();
+  try {
+    const result = await fn(client);
+    if (pool === defaultPool) committed.add(reply.request);
+    return result;
+  } finally {
+    client.release();
+    recordDbTime(reply, Number(process.hrtime.bigint() - q0) / 1e6);
+  }
+}
+
+// withClient on a replica (or the primary when none is healthy or the request is pinned)
+export async function withReadClient<T>(
+  reply: FastifyReply,
+  fn: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  return await withClient(reply, fn, 'read');
+}
+
+// Checks out a client for a streamed response, it is released once the stream
+// returned by `fn` closes. Only the pool wait is recorded: headers are sent
+// before the queries run.
+export async function withStreamingClient(
+  reply: FastifyReply,
+  fn: (client: PoolClient) => Readable,
+  pool: PoolTarget = defaultPool
+): Promise<Readable> {
+  const w0 = process.hrtime.bigint();
+  const client = await connect(reply, pool);
+  recordPoolWait(reply, Number(process.hrtime.bigint() - w0) / 1e6);
+
+  try {
+    const stream = fn(client);
+    stream.once('close', () => client.release());
+    return stream;
+  } catch (e) {
+    client.release();
+    throw e;
+  }
+}
+
+const ROLLBACK = Symbol('rollback');
+
+interface Rollback<T> {
+  [ROLLBACK]: true;
+  value: T;
+}
+
+// Ends the surrounding withTransaction with ROLLBACK and makes it return `value`
+// instead of throwing, e.g. an atomic batch where some items were not found
+export function rollback<T>(value: T): never {
+  throw { [ROLLBACK]: true, value } satisfies Rollback<T>;
+}
+
+// Same as withClient, wrapped in BEGIN/COMMIT with ROLLBACK on error
+export async function withTransaction<T>(
+  reply: FastifyReply,
+  fn: (client: PoolClient) => Promise<T>,
+  pool: Pool = defaultPool
+): Promise<T> {
+  return await withClient(reply, async (client) => {
+    await client.query('BEGIN');
+    try {
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (e) {
+      await client.query('ROLLBACK');
+      if (typeof e === 'object' && e !== null && ROLLBACK in e) {
+        return (e as Rollback<T>).value;
+      }
+      throw e;
+    }
+  }, pool);
+}
@@ -1,79 +1,54 @@
 // db/connection.ts
 import { drizzle } from 'drizzle-orm/node-postgres';
 import { Pool } from 'pg';
-import { Registry, collectDefaultMetrics, Gauge } from 'prom-client';
+import { Registry, collectDefaultMetrics } from 'prom-client';
+import { config } from '../config.js';
+import { NamedPool, setupPoolMetrics } from './pool-metrics.js';
 
-export const pool = new Pool({
-  connectionString: process.env.DATABASE_URL,
-  
-  max: parseInt(process.env.DB_POOL_MAX || '100'),
-  min: parseInt(process.env.DB_POOL_MIN || '75'),
-  idleTimeoutMillis: parseInt(process.env.DB_POOL_IDLE_TIMEOUT || '30000'),
-  connectionTimeoutMillis: parseInt(process.env.DB_POOL_CONNECTION_TIMEOUT || '5000'),
-  
-  ssl: false,
-  
-  keepAlive: true,
-  keepAliveInitialDelayMillis: 10000,
-  statement_timeout: parseInt(process.env.DB_STATEMENT_TIMEOUT || '30000'), 
-});
-export const db = drizzle(pool);
+function createPool(connectionString: string | undefined) {
+  return new Pool({
+    connectionString,
 
-export const register = new Registry();
-collectDefaultMetrics({ register });
+    max: config.db.pool.max,
+    min: config.db.pool.min,
+    idleTimeoutMillis: config.db.pool.idleTimeoutMs,
+    connectionTimeoutMillis: config.db.pool.connectionTimeoutMs,
 
-// ✅ Prevent re-registering metrics (hot reload / cluster forks)
-if (!(globalThis as any).__pgMetricsInit) {
-  new Gauge({
-    name: 'pg_pool_size',
-    help: 'Current pool size (active + idle).',
-    registers: [register],
-    collect() { this.set(pool.totalCount); },
-  });
+    ssl: false,
 
-  new Gauge({
-    name: 'pg_pool_active_connections',
-    help: 'Active connections.',
-    registers: [register],
-    collect() { this.set(pool.totalCount - pool.idleCount); },
+    keepAlive: true,
+    keepAliveInitialDelayMillis: 10000,
+    statement_timeout: config.db.pool.statementTimeoutMs,
   });
+}
 
-  new Gauge({
-    name: 'pg_pool_idle_connections',
-    help: 'Idle connections.',
-    registers: [register],
-    collect() { this.set(pool.idleCount); },
-  });
+// Primary: all writes, and reads when no replica is configured or healthy
+export const pool = createPool(config.db.url);
+export const db = drizzle(pool);
 
-  new Gauge({
-    name: 'pg_pool_waiting_connections',
-    help: 'Waiting clients.',
-    registers: [register],
-    collect() { this.set(pool.waitingCount); },
-  });
+// Read replicas, comma-separated DATABASE_REPLICA_URLS (see db/routing.ts)
+export const replicaPools = config.db.replicaUrls.map(createPool);
 
-  const pgPoolErrors = new Gauge({
-    name: 'pg_pool_errors_total',
-    help: 'Total pool errors since start.',
-    registers: [register],
-  });
+// Every pool by the name its metrics and health checks use
+export const namedPools: NamedPool[] = [
+  { name: 'primary', pool },
+  ...replicaPools.map((replica, i) => ({ name: `replica-${i + 1}`, pool: replica }))
+];
 
-  let errorCount = 0;
-  pool.on('error', (err) => {
-    errorCount += 1;
-    pgPoolErrors.set(errorCount);
-    console.error('❌ Database connection error:', err);
-  });
+export const register = new Registry();
+collectDefaultMetrics({ register });
 
-  (globalThis as any).__pgMetricsInit = true;
+for (const { name, pool: p } of namedPools) {
+  setupPoolMetrics(p, name, register);
 }
 
-// (optional) monitorPgPool(pool, { register });
+// An 'error' event without a listener would crash the worker (replicas also get one in db/routing.ts)
+pool.on('error', (err) => {
+  console.error('❌ Database connection error:', err);
+});
 
-async function closePool() {
+// Called once on shutdown, after the server stopped handling requests (see server.ts)
+export async function closePools() {
   console.log('Closing database connections...');
-  await pool.end();
-  process.exit(0);
+  await Promise.all(namedPools.map(({ pool: p }) => p.end()));
 }
-process.on('SIGINT', closePool);
-process.on('SIGTERM', closePool);
@@ -0,0 +1,145 @@
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import pg from 'pg';
+import { config } from '../config.js';
+
+// Same path from src/db and dist/db
+const MIGRATIONS_FOLDER = join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'drizzle');
+
+// Any fixed number works, it only has to be the same in every process
+const MIGRATION_LOCK_ID = 7_234_001;
+
+// Column types as drizzle-kit writes them vs. information_schema.columns.data_type
+const PG_TYPES: Record<string, string> = {
+  serial: 'integer',
+  smallserial: 'smallint',
+  bigserial: 'bigint',
+  varchar: 'character varying',
+  timestamp: 'timestamp without time zone',
+  timestamptz: 'timestamp with time zone'
+};
+
+interface Snapshot {
+  tables: Record<string, {
+    name: string;
+    schema: string;
+    columns: Record<string, { name: string; type: string; notNull: boolean }>;
+    indexes: Record<string, { name: string }>;
+  }>;
+}
+
+interface Journal {
+  entries: { idx: number; when: number; tag: string }[];
+}
+
+export interface MigrationOptions {
+  connectionString?: string;
+  // Log drift instead of refusing to start
+  allowDrift?: boolean;
+}
+
+export interface MigrationResult {
+  applied: number;
+  drift: string[];
+}
+
+function readJson<T>(file: string): T {
+  return JSON.parse(readFileSync(join(MIGRATIONS_FOLDER, file), 'utf8')) as T;
+}
+
+// Differences between the live database and the schema of the latest migration
+export async function detectDrift(client: pg.Client): Promise<string[]> {
+  const journal = readJson<Journal>('meta/_journal.json');
+  const latest = journal.entries[journal.entries.length - 1];
+  if (!latest) return [];
+  const snapshot = readJson<Snapshot>(`meta/${latest.tag.split('_')[0]}_snapshot.json`);
+  const drift: string[] = [];
+
+  const applied = await client.query<{ created_at: string }>(
+    'SELECT created_at FROM drizzle.__drizzle_migrations ORDER BY created_at DESC LIMIT 1'
+  );
+  if (applied.rows[0] && Number(applied.rows[0].created_at) > latest.when) {
+    drift.push(`database has migrations newer than ${latest.tag}, is this an older build?`);
+  }
+
+  for (const table of Object.values(snapshot.tables)) {
+    const schema = table.schema || 'public';
+    const columns = await client.query<{ column_name: string; data_type: string; is_nullable: string }>(
+      'SELECT column_name, data_type, is_nullable FROM information_schema.columns WHERE table_schema = $1 AND table_name = $2',
+      [schema, table.name]
+    );
+    if (columns.rows.length === 0) {
+      drift.push(`table ${table.name} is missing`);
+      continue;
+    }
+
+    const live = new Map(columns.rows.map(c => [c.column_name, c]));
+    for (const column of Object.values(table.columns)) {
+      const actual = live.get(column.name);
+      const expectedType = PG_TYPES[column.type] ?? column.type;
+      if (!actual) {
+        drift.push(`column ${table.name}.${column.name} is missing`);
+      } else if (actual.data_type !== expectedType) {
+        drift.push(`column ${table.name}.${column.name} is ${actual.data_type}, expected ${expectedType}`);
+      } else if ((actual.is_nullable === 'NO') !== column.notNull) {
+        drift.push(`column ${table.name}.${column.name} is ${column.notNull ? 'nullable' : 'NOT NULL'}, expected the opposite`);
+      }
+      live.delete(column.name);
+    }
+    for (const extra of live.keys()) {
+      drift.push(`column ${table.name}.${extra} is not in the migrations`);
+    }
+
+    const indexes = await client.query<{ indexname: string }>(
+      'SELECT indexname FROM pg_indexes WHERE schemaname = $1 AND tablename = $2',
+      [schema, table.name]
+    );
+    const liveIndexes = new Set(indexes.rows.map(i => i.indexname));
+    for (const index of Object.values(table.indexes)) {
+      if (!liveIndexes.has(index.name)) drift.push(`index ${index.name} on ${table.name} is missing`);
+    }
+  }
+
+  return drift;
+}
+
+// Applies pending migrations from ./drizzle, then checks the result against the
+// latest snapshot. The advisory lock makes concurrent callers (other replicas
+// starting at the same time) wait and then find nothing left to do.
+export async function runMigrations(options: MigrationOptions = {}): Promise<MigrationResult> {
+  const client = new pg.Client({ connectionString: options.connectionString ?? config.db.url });
+  await client.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    try {
+      // Two queries: Postgres resolves every table of a statement before running it,
+      // so a missing journal table can't be skipped inside one (fresh or db:push databases)
+      const count = async () => {
+        const exists = await client.query<{ journal: string | null }>(
+          "SELECT to_regclass('drizzle.__drizzle_migrations')::text AS journal"
+        );
+        if (!exists.rows[0].journal) return 0;
+        const res = await client.query<{ n: number }>('SELECT count(*)::int AS n FROM drizzle.__drizzle_migrations');
+        return res.rows[0].n;
+      };
+
+      const before = await count();
+      await migrate(drizzle(client), { migrationsFolder: MIGRATIONS_FOLDER });
+      const applied = (await count()) - before;
+
+      const drift = await detectDrift(client);
+      if (drift.length > 0 && !options.allowDrift) {
+        throw new Error(`Schema drift detected (set MIGRATIONS_ALLOW_DRIFT=true to start anyway):\n  - ${drift.join('\n  - ')}`);
+      }
+      return { applied, drift };
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+    }
+  } finally {
+    await client.end();
+  }
+}
@@ -1,105 +1,252 @@
-import { Gauge, Counter, Registry } from 'prom-client';
-import type { Pool } from 'pg';
-
-export function setupPoolMetrics(pool: Pool, register: Registry) {
-  // Define metrics
-  const poolSize = new Gauge({
-    name: 'pg_pool_size',
-    help: 'The current size of the connection pool',
+import { Gauge, Counter, Histogram, Registry } from 'prom-client';
+import type { Pool, PoolClient } from 'pg';
+import { config } from '../config.js';
+
+// Client-side metrics for any number of named pools (primary, replica-1, ...),
+// one set of series per registry labelled with pool_name. Gauges are read at
+// scrape time, checkouts and queries are timed by wrapping connect/query.
+
+export interface NamedPool {
+  name: string;
+  pool: Pool;
+}
+
+interface PoolMetrics {
+  pools: Map<string, Pool>;
+  created: Counter;
+  removed: Counter;
+  errors: Counter;
+  acquire: Histogram;
+  query: Histogram;
+}
+
+type ConnectCallback = (err: Error | undefined, client: PoolClient | undefined, done: (release?: unknown) => void) => void;
+
+const metricsByRegistry = new WeakMap<Registry, PoolMetrics>();
+
+function poolGauge(register: Registry, pools: Map<string, Pool>, name: string, help: string, read: (pool: Pool) => number) {
+  new Gauge({
+    name,
+    help,
     labelNames: ['pool_name'],
-    registers: [register]
-  });
-
-  const poolMax = new Gauge({
-    name: 'pg_pool_max',
-    help: 'The maximum size of the connection pool',
-    labelNames: ['pool_name'],
-    registers: [register]
-  });
-
-  const activeConnections = new Gauge({
-    name: 'pg_pool_active_connections',
-    help: 'The number of active connections',
-    labelNames: ['pool_name'],
-    registers: [register]
-  });
-
-  const idleConnections = new Gauge({
-    name: 'pg_pool_idle_connections',
-    help: 'The number of idle connections',
-    labelNames: ['pool_name'],
-    registers: [register]
-  });
-
-  const waitingConnections = new Gauge({
-    name: 'pg_pool_waiting_connections',
-    help: 'The number of waiting connections',
-    labelNames: ['pool_name'],
-    registers: [register]
+    registers: [register],
+    collect() {
+      for (const [poolName, pool] of pools) this.set({ pool_name: poolName }, read(pool));
+    }
   });
+}
+
+function poolMetrics(register: Registry): PoolMetrics {
+  const existing = metricsByRegistry.get(register);
+  if (existing) return existing;
+
+  const pools = new Map<string, Pool>();
+  poolGauge(register, pools, 'pg_pool_size', 'Connections in the pool (active + idle).', p => p.totalCount);
+  poolGauge(register, pools, 'pg_pool_max', 'Maximum size of the pool.', p => p.options.max ?? 10);
+  poolGauge(register, pools, 'pg_pool_active_connections', 'Connections checked out.', p => p.totalCount - p.idleCount);
+  poolGauge(register, pools, 'pg_pool_idle_connections', 'Connections idle in the pool.', p => p.idleCount);
+  poolGauge(register, pools, 'pg_pool_waiting_connections', 'Checkouts waiting for a connection.', p => p.waitingCount);
+
+  const metrics: PoolMetrics = {
+    pools,
+    created: new Counter({
+      name: 'pg_pool_connections_created_total',
+      help: 'Connections opened by the pool.',
+      labelNames: ['pool_name'],
+      registers: [register]
+    }),
+    removed: new Counter({
+      name: 'pg_pool_connections_removed_total',
+      help: 'Connections closed by the pool.',
+      labelNames: ['pool_name'],
+      registers: [register]
+    }),
+    errors: new Counter({
+      name: 'pg_pool_errors_total',
+      help: 'Errors on idle connections (by error code) and failed checkouts (error_type="acquire").',
+      labelNames: ['pool_name', 'error_type'],
+      registers: [register]
+    }),
+    acquire: new Histogram({
+      name: 'pg_pool_acquire_seconds',
+      help: 'Time from asking the pool for a connection until getting one (or failing).',
+      labelNames: ['pool_name'],
+      buckets: config.metrics.dbBuckets,
+      registers: [register]
+    }),
+    query: new Histogram({
+      name: 'pg_query_duration_seconds',
+      help: 'Duration of each query sent through the pool.',
+      labelNames: ['pool_name'],
+      buckets: config.metrics.dbBuckets,
+      registers: [register]
+    })
+  };
+  metricsByRegistry.set(register, metrics);
+  return metrics;
+}
+
+// Times every query of a new connection. Promise and callback calls are
+// measured, submittables (cursors, streams) are passed through untimed.
+function timeQueries(client: PoolClient, startTimer: () => () => void) {
+  const query = client.query.bind(client) as (...args: unknown[]) => unknown;
+  (client as { query: unknown }).query = (...args: unknown[]) => {
+    const callback = args[args.length - 1];
+    if (typeof callback === 'function') {
+      const end = startTimer();
+      args[args.length - 1] = (...result: unknown[]) => {
+        end();
+        callback(...result);
+      };
+      return query(...args);
+    }
+    const end = startTimer();
+    const result = query(...args);
+    if (result instanceof Promise) result.then(() => end(), () => end());
+    return result;
+  };
+}
 
-  const connectionsCreated = new Counter({
-    name: 'pg_pool_connections_created_total',
-    help: 'Total number of connections created',
-    labelNames: ['pool_name'],
-    registers: [register]
-  });
+export function setupPoolMetrics(pool: Pool, name: string, register: Registry) {
+  const metrics = poolMetrics(register);
+  metrics.pools.set(name, pool);
+  const labels = { pool_name: name };
 
-  const connectionsRemoved = new Counter({
-    name: 'pg_pool_connections_removed_total',
-    help: 'Total number of connections removed',
-    labelNames: ['pool_name'],
-    registers: [register]
+  pool.on('connect', (client) => {
+    metrics.created.inc(labels);
+    timeQueries(client, () => metrics.query.startTimer(labels));
   });
-
-  const poolErrors = new Counter({
-    name: 'pg_pool_errors_total',
-    help: 'Total number of pool errors',
-    labelNames: ['pool_name', 'error_type'],
-    registers: [register]
+  pool.on('remove', () => metrics.removed.inc(labels));
+  pool.on('error', (err: Error) => {
+    metrics.errors.inc({ ...labels, error_type: (err as { code?: string }).code || 'unknown' });
   });
 
-  // Set static metrics
-  poolMax.set({ pool_name: 'main' }, pool.options.max || 10);
-
-  // Update metrics periodically
-  const updateMetrics = () => {
-    const total = pool.totalCount;
-    const idle = pool.idleCount;
-    const waiting = pool.waitingCount;
-
-    poolSize.set({ pool_name: 'main' }, total);
-    idleConnections.set({ pool_name: 'main' }, idle);
-    activeConnections.set({ pool_name: 'main' }, total - idle);
-    waitingConnections.set({ pool_name: 'main' }, waiting);
+  // pool.query() checks out through connect(callback), so both paths are timed
+  const connect = pool.connect.bind(pool) as (callback?: ConnectCallback) => Promise<PoolClient> | void;
+  (pool as { connect: unknown }).connect = (callback?: ConnectCallback) => {
+    const end = metrics.acquire.startTimer(labels);
+    const failed = () => metrics.errors.inc({ ...labels, error_type: 'acquire' });
+    if (callback) {
+      return connect((err, client, done) => {
+        end();
+        if (err) failed();
+        callback(err, client, done);
+      });
+    }
+    return (connect() as Promise<PoolClient>).then(
+      client => {
+        end();
+        return client;
+      },
+      err => {
+        end();
+        failed();
+        throw err;
+      }
+    );
+  };
+}
+
+// Server-side view from pg_stat_activity. Every process would report the same
+// numbers, so only the cluster primary registers these (see server.ts).
+const ACTIVITY_TIMEOUT_MS = 1000;
+
+interface Activity {
+  states: { state: string; n: number }[];
+  waiting: { wait_event_type: string; n: number }[];
+  oldestTransactionSeconds: number;
+  maxConnections: number;
+}
+
+async function readActivity(pool: Pool): Promise<Activity> {
+  const client = await pool.connect();
+  try {
+    const states = await client.query<{ state: string; n: number }>(
+      "SELECT coalesce(state, 'unknown') AS state, count(*)::int AS n FROM pg_stat_activity " +
+      "WHERE datname = current_database() AND backend_type = 'client backend' GROUP BY 1"
+    );
+    const waiting = await client.query<{ wait_event_type: string; n: number }>(
+      'SELECT wait_event_type, count(*)::int AS n FROM pg_stat_activity ' +
+      "WHERE datname = current_database() AND state = 'active' AND wait_event_type IS NOT NULL GROUP BY 1"
+    );
+    const totals = await client.query<{ oldest: number; max: number }>(
+      'SELECT coalesce(extract(epoch FROM max(now() - xact_start)), 0)::float AS oldest, ' +
+      "current_setting('max_connections')::int AS max FROM pg_stat_activity WHERE datname = current_database()"
+    );
+    return {
+      states: states.rows,
+      waiting: waiting.rows,
+      oldestTransactionSeconds: totals.rows[0].oldest,
+      maxConnections: totals.rows[0].max
+    };
+  } finally {
+    client.release();
+  }
+}
+
+export function setupActivityMetrics(pools: NamedPool[], register: Registry) {
+  // One round of queries per scrape, shared by the gauges below
+  let pending: Promise<Map<string, Activity>> | null = null;
+  let takenAt = 0;
+  const snapshot = () => {
+    if (pending && Date.now() - takenAt < ACTIVITY_TIMEOUT_MS) return pending;
+    takenAt = Date.now();
+    pending = Promise.all(pools.map(async ({ name, pool }) => {
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), ACTIVITY_TIMEOUT_MS); });
+      // An unreachable server just has no series in this scrape
+      const activity = await Promise.race([readActivity(pool).catch(() => null), timeout]);
+      clearTimeout(timer);
+      return [name, activity] as const;
+    })).then(entries => new Map(entries.filter((e): e is readonly [string, Activity] => e[1] !== null)));
+    return pending;
   };
 
-  // Update metrics every 5 seconds
-  const interval = setInterval(updateMetrics, 5000);
-  
-  // Initial update
-  updateMetrics();
-
-  // Track events
-  pool.on('connect', () => {
-    connectionsCreated.inc({ pool_name: 'main' });
-    updateMetrics();
+  new Gauge({
+    name: 'pg_stat_activity_connections',
+    help: 'Client backends connected to the database by state (active, idle, idle in transaction, ...).',
+    labelNames: ['pool_name', 'state'],
+    registers: [register],
+    async collect() {
+      this.reset();
+      for (const [name, activity] of await snapshot()) {
+        for (const { state, n } of activity.states) this.set({ pool_name: name, state }, n);
+      }
+    }
   });
 
-  pool.on('remove', () => {
-    connectionsRemoved.inc({ pool_name: 'main' });
-    updateMetrics();
+  new Gauge({
+    name: 'pg_stat_activity_waiting',
+    help: 'Active backends waiting, by wait_event_type (Lock, IO, LWLock, ...).',
+    labelNames: ['pool_name', 'wait_event_type'],
+    registers: [register],
+    async collect() {
+      this.reset();
+      for (const [name, activity] of await snapshot()) {
+        for (const { wait_event_type, n } of activity.waiting) this.set({ pool_name: name, wait_event_type }, n);
+      }
+    }
   });
 
-  pool.on('error', (err: Error) => {
-    poolErrors.inc({ 
-      pool_name: 'main', 
-      error_type: (err as any).code || 'unknown' 
-    });
+  new Gauge({
+    name: 'pg_stat_activity_oldest_transaction_seconds',
+    help: 'Age of the oldest open transaction.',
+    labelNames: ['pool_name'],
+    registers: [register],
+    async collect() {
+      this.reset();
+      for (const [name, activity] of await snapshot()) this.set({ pool_name: name }, activity.oldestTransactionSeconds);
+    }
   });
 
-  // Cleanup function
-  return () => {
-    clearInterval(interval);
-  };
-}
\ No newline at end of file
+  new Gauge({
+    name: 'pg_max_connections',
+    help: 'The server\'s max_connections setting.',
+    labelNames: ['pool_name'],
+    registers: [register],
+    async collect() {
+      this.reset();
+      for (const [name, activity] of await snapshot()) this.set({ pool_name: name }, activity.maxConnections);
+    }
+  });
+}
@@ -0,0 +1,119 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { Pool } from 'pg';
+import { config } from '../config.js';
+import { namedPools, pool as primary } from './connection.js';
+
+// Read/write splitting: writes always use the primary, reads rotate over the
+// replicas that passed their last health check and fall back to the primary.
+
+interface ReplicaState {
+  pool: Pool;
+  name: string;
+  healthy: boolean;
+  lastError: string | null;
+  checkedAt: number | null;
+}
+
+export interface ReplicaStatus {
+  name: string;
+  healthy: boolean;
+  lastError: string | null;
+  checkedAt: string | null;
+}
+
+const HEALTH_INTERVAL_MS = config.db.replicaHealthIntervalMs;
+// How long a client keeps reading from the primary after a write (0 = only the writing request)
+const READ_YOUR_WRITES_MS = config.db.readYourWritesMs;
+const PIN_COOKIE = 'db_pin';
+
+const replicas: ReplicaState[] = namedPools.filter(({ pool }) => pool !== primary).map(({ name, pool }) => ({
+  pool,
+  name,
+  healthy: true,
+  lastError: null,
+  checkedAt: null
+}));
+
+let cursor = 0;
+// Requests that wrote through the primary in this worker
+const pinned = new WeakSet<FastifyRequest>();
+
+export function markReplicaDown(pool: Pool, err: Error) {
+  const replica = replicas.find(r => r.pool === pool);
+  if (!replica || !replica.healthy) return;
+  replica.healthy = false;
+  replica.lastError = err.message;
+  console.warn(`⚠️  ${replica.name} marked unhealthy: ${err.message}`);
+}
+
+async function checkReplica(replica: ReplicaState) {
+  try {
+    await replica.pool.query('SELECT 1');
+    if (!replica.healthy) console.log(`✅ ${replica.name} is healthy again`);
+    replica.healthy = true;
+    replica.lastError = null;
+  } catch (err) {
+    markReplicaDown(replica.pool, err as Error);
+  } finally {
+    replica.checkedAt = Date.now();
+  }
+}
+
+if (replicas.length > 0) {
+  for (const replica of replicas) {
+    replica.pool.on('error', err => markReplicaDown(replica.pool, err));
+  }
+  // unref: the health checks alone must not keep a worker alive
+  setInterval(() => replicas.forEach(checkReplica), HEALTH_INTERVAL_MS).unref();
+}
+
+// Called for every primary checkout: later reads of this request go to the
+// primary too, and a short-lived cookie does the same for the client's next requests
+export function pinToPrimary(reply: FastifyReply) {
+  if (replicas.length === 0 || pinned.has(reply.request)) return;
+  pinned.add(reply.request);
+  if (READ_YOUR_WRITES_MS > 0 && !reply.sent) {
+    const until = Date.now() + READ_YOUR_WRITES_MS;
+    const maxAge = Math.ceil(READ_YOUR_WRITES_MS / 1000);
+    reply.header('Set-Cookie', `${PIN_COOKIE}=${until}; Max-Age=${maxAge}; Path=/; HttpOnly; SameSite=Lax`);
+  }
+}
+
+function pinnedByCookie(request: FastifyRequest) {
+  const match = request.headers.cookie?.match(new RegExp(`(?:^|;\\s*)${PIN_COOKIE}=(\\d+)`));
+  return match ? Number(match[1]) > Date.now() : false;
+}
+
+export function hasReplicas() {
+  return replicas.length > 0;
+}
+
+// Whether this request reads from the primary, by its own write or the client's cookie
+export function isPinned(request: FastifyRequest) {
+  return replicas.length > 0 && (pinned.has(request) || pinnedByCookie(request));
+}
+
+// Pool for a read: the primary for pinned requests, otherwise the next healthy replica
+export function readPool(request?: FastifyRequest): Pool {
+  if (replicas.length === 0) return primary;
+  if (request && isPinned(request)) return primary;
+
+  for (let i = 0; i < replicas.length; i++) {
+    const replica = replicas[cursor++ % replicas.length];
+    if (replica.healthy) return replica.pool;
+  }
+  return primary;
+}
+
+export function isReplica(pool: Pool) {
+  return replicas.some(r => r.pool === pool);
+}
+
+export function replicaStatus(): ReplicaStatus[] {
+  return replicas.map(r => ({
+    name: r.name,
+    healthy: r.healthy,
+    lastError: r.lastError,
+    checkedAt: r.checkedAt ? new Date(r.checkedAt).toISOString() : null
+  }));
+}
@@ -3,20 +3,45 @@ import {
   pgTable, 
   serial, 
   integer, 
-  text
+  text,
+  index,
+  jsonb,
+  timestamp
 } from 'drizzle-orm/pg-core';
 
 export const world = pgTable('world', {
   id: serial('id').primaryKey(),
   randomNumber: integer('randomNumber').notNull(),
-});
+}, (table) => [
+  // Keyset pages of GET /world?sort=randomNumber
+  index('world_random_number_id_idx').on(table.randomNumber, table.id),
+]);
 
 export const fortune = pgTable('fortune', {
   id: serial('id').primaryKey(),
   message: text('message').notNull(),
-});
+}, (table) => [
+  // Keyset pages of GET /fortune?sort=message
+  index('fortune_message_id_idx').on(table.message, table.id),
+]);
+
+// Responses of requests with an Idempotency-Key (plugins/idempotency.ts). Kept
+// out of the cache backend, where a clear or an eviction would let a retry run twice.
+export const idempotencyKey = pgTable('idempotency_key', {
+  // `{client}:{Idempotency-Key}`
+  key: text('key').primaryKey(),
+  fingerprint: text('fingerprint').notNull(),
+  // The response, null while the first request still runs
+  statusCode: integer('status_code'),
+  headers: jsonb('headers'),
+  body: text('body'),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+}, (table) => [
+  // Purge of expired keys
+  index('idempotency_key_expires_at_idx').on(table.expiresAt),
+]);
 
 export type World = typeof world.$inferSelect;
 export type NewWorld = typeof world.$inferInsert;
 export type Fortune = typeof fortune.$inferSelect;
-export type NewFortune = typeof fortune.$inferInsert;
\ No newline at end of file
+export type NewFortune = typeof fortune.$inferInsert;
@@ -0,0 +1,36 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+
+// Database time of one request, summed over all its checkouts and queries.
+// Sent as X-Pool-Wait / X-DB-Time and observed by plugins/metrics.ts.
+export interface DbTiming {
+  poolWaitMs: number;
+  dbMs: number;
+}
+
+const timings = new WeakMap<FastifyRequest, DbTiming>();
+
+function timingOf(request: FastifyRequest): DbTiming {
+  let timing = timings.get(request);
+  if (!timing) {
+    timing = { poolWaitMs: 0, dbMs: 0 };
+    timings.set(request, timing);
+  }
+  return timing;
+}
+
+export function recordPoolWait(reply: FastifyReply, ms: number) {
+  const timing = timingOf(reply.request);
+  timing.poolWaitMs += ms;
+  if (!reply.raw.headersSent) reply.header('X-Pool-Wait', timing.poolWaitMs.toFixed(2));
+}
+
+export function recordDbTime(reply: FastifyReply, ms: number) {
+  const timing = timingOf(reply.request);
+  timing.dbMs += ms;
+  if (!reply.raw.headersSent) reply.header('X-DB-Time', timing.dbMs.toFixed(2));
+}
+
+// undefined when the request never touched the database
+export function dbTiming(request: FastifyRequest): DbTiming | undefined {
+  return timings.get(request);
+}
@@ -0,0 +1,11 @@
+// Worker state read by the readiness check (routes/health.ts). Draining starts
+// when the worker is asked to shut down (server.ts) and never ends.
+let drainingSince: number | null = null;
+
+export function startDraining() {
+  drainingSince ??= Date.now();
+}
+
+export function isDraining(): boolean {
+  return drainingSince !== null;
+}
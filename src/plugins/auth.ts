@@ -0,0 +1,123 @@
+import fp from 'fastify-plugin'
+import { createHash, createPublicKey, timingSafeEqual } from 'node:crypto'
+import type { FastifyReply, FastifyRequest } from 'fastify'
+import { verifyJwt } from '../auth/jwt.js'
+import { config, ROLES, Role } from '../config.js'
+
+export interface Principal {
+  // API key name or JWT subject
+  id: string
+  type: 'apiKey' | 'jwt'
+  roles: Role[]
+}
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // Least role a caller needs, routes without one are public
+    role?: Role
+  }
+
+  interface FastifyRequest {
+    // Caller identified by X-API-Key or a Bearer token, null when anonymous
+    principal: Principal | null
+  }
+}
+
+const digest = (value: string) => createHash('sha256').update(value).digest()
+
+// A role includes every role ranked below it
+function allows(roles: Role[], required: Role): boolean {
+  return roles.some(role => ROLES.indexOf(role) >= ROLES.indexOf(required))
+}
+
+// Accepts a list or a space separated string (OAuth `scope` style), unknown roles are dropped
+function claimedRoles(claim: unknown): Role[] {
+  const values = Array.isArray(claim) ? claim : typeof claim === 'string' ? claim.split(' ') : []
+  return values.filter((v): v is Role => (ROLES as readonly unknown[]).includes(v))
+}
+
+function deny(reply: FastifyReply, statusCode: 401 | 403, error: string) {
+  if (statusCode === 401) reply.header('WWW-Authenticate', 'Bearer')
+  return reply.code(statusCode).send({ error })
+}
+
+/**
+ * This plugin identifies callers by static API key (`X-API-Key`) or by a
+ * JWT (`Authorization: Bearer`) signed with AUTH_JWT_SECRET (HS256/384/512)
+ * or the key matching AUTH_JWT_PUBLIC_KEY (RS256/384/512), and checks the
+ * role a route asks for with `config: { role }`. The caller is added to the
+ * request log as `principal`.
+ *
+ * Callers are only identified on `onRequest`, so the rate limiter can key on
+ * them; routes are refused on `preParsing`, before any upload is read.
+ */
+export default fp(async (fastify) => {
+  fastify.decorateRequest('principal', null)
+
+  const { enabled, apiKeys, jwt } = config.auth
+  if (!enabled) {
+    if (config.env === 'production') fastify.log.warn('⚠️  Authentication disabled, every route is public')
+    return
+  }
+
+  const keys = apiKeys.map(({ name, key, role }) => ({ name, hash: digest(key), role }))
+  const jwtOptions = {
+    secret: jwt.secret,
+    publicKey: jwt.publicKey ? createPublicKey(jwt.publicKey) : undefined,
+    issuer: jwt.issuer,
+    audience: jwt.audience,
+    clockToleranceSeconds: jwt.clockToleranceSeconds
+  }
+
+  // Why the credentials of a request were rejected
+  const failures = new WeakMap<FastifyRequest, string>()
+
+  function authenticate(request: FastifyRequest): Principal | null {
+    const apiKey = request.headers['x-api-key']
+    if (typeof apiKey === 'string' && apiKey) {
+      // Hashing first gives equal lengths for timingSafeEqual
+      const hash = digest(apiKey)
+      const match = keys.find(k => timingSafeEqual(k.hash, hash))
+      if (!match) throw new Error('Invalid API key')
+      return { id: match.name, type: 'apiKey', roles: [match.role] }
+    }
+
+    const [scheme, token] = (request.headers.authorization || '').split(' ')
+    if (scheme?.toLowerCase() !== 'bearer' || !token) return null
+    if (!jwt.secret && !jwt.publicKey) throw new Error('Bearer tokens are not accepted')
+    const claims = verifyJwt(token, jwtOptions)
+    return { id: String(claims.sub ?? 'unknown'), type: 'jwt', roles: claimedRoles(claims[jwt.rolesClaim]) }
+  }
+
+  // Swagger shows a lock on the routes that need a role
+  fastify.addHook('onRoute', (route) => {
+    if (!route.config?.role) return
+    route.schema = { ...route.schema, security: [{ apiKey: [] }, { bearerAuth: [] }] }
+  })
+
+  fastify.addHook('onRequest', async (request, reply) => {
+    try {
+      request.principal = authenticate(request)
+    } catch (error) {
+      failures.set(request, (error as Error).message)
+      return
+    }
+    if (request.principal) {
+      const { id, type, roles } = request.principal
+      request.log = reply.log = request.log.child({ principal: { id, type, roles } })
+    }
+  })
+
+  fastify.addHook('preParsing', async (request, reply, payload) => {
+    const failure = failures.get(request)
+    if (failure) return deny(reply, 401, failure)
+
+    const required = request.routeOptions.config.role
+    if (!required) return payload
+    if (!request.principal) return deny(reply, 401, `Authentication required (${required} role)`)
+    if (!allows(request.principal.roles, required)) {
+      return deny(reply, 403, `The ${required} role is required`)
+    }
+    return payload
+  })
+})
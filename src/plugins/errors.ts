@@ -0,0 +1,30 @@
+import fp from 'fastify-plugin'
+import { STATUS_CODES } from 'node:http'
+import type { FastifyError } from 'fastify'
+
+/**
+ * This plugin gives every error response the same `{ error, details? }` body,
+ * schema validation failures list each offending field. Server errors only
+ * get the status text, their message (e.g. from Postgres) goes to the log.
+ */
+export default fp(async (fastify) => {
+  fastify.setErrorHandler((error: FastifyError, request, reply) => {
+    if (error.validation) {
+      const details = error.validation.map((issue) => {
+        const missing = (issue.params as { missingProperty?: string })?.missingProperty
+        const path = [error.validationContext, ...issue.instancePath.split('/').filter(Boolean), missing]
+          .filter(Boolean)
+          .join('.')
+        return { field: path, message: issue.message || 'is invalid' }
+      })
+      return reply.code(400).send({ error: `Invalid ${error.validationContext || 'request'}`, details })
+    }
+
+    const statusCode = error.statusCode && error.statusCode >= 400 ? error.statusCode : 500
+    if (statusCode >= 500) {
+      request.log.error(error)
+      return reply.code(statusCode).send({ error: STATUS_CODES[statusCode] ?? 'Internal Server Error' })
+    }
+    return reply.code(statusCode).send({ error: error.message })
+  })
+})
@@ -0,0 +1,181 @@
+import fp from 'fastify-plugin'
+import { createHash } from 'node:crypto'
+import { Counter } from 'prom-client'
+import type { FastifyReply, FastifyRequest } from 'fastify'
+import { clientId } from '../auth/client.js'
+import { config } from '../config.js'
+import { mayHaveCommitted } from '../db/client.js'
+import { pool, register } from '../db/connection.js'
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // Honour the Idempotency-Key header on this route
+    idempotent?: boolean
+  }
+}
+
+// Claimed while the first request runs, then replaced by its response
+type IdempotencyRecord =
+  | { state: 'pending'; fingerprint: string }
+  | { state: 'done'; fingerprint: string; statusCode: number; headers: Record<string, string | string[]>; body: string }
+
+interface IdempotencyRow {
+  fingerprint: string
+  status_code: number | null
+  headers: Record<string, string | string[]> | null
+  body: string | null
+}
+
+const MAX_KEY_LENGTH = 255
+// How often each worker deletes expired keys
+const PURGE_INTERVAL_MS = 60_000
+
+// An expired key is taken over like a missing one
+const CLAIM_SQL = `
+  INSERT INTO idempotency_key (key, fingerprint, expires_at) VALUES ($1, $2, now() + $3 * interval '1 second')
+  ON CONFLICT (key) DO UPDATE
+    SET fingerprint = EXCLUDED.fingerprint, status_code = NULL, headers = NULL, body = NULL, expires_at = EXCLUDED.expires_at
+    WHERE idempotency_key.expires_at <= now()
+  RETURNING key`
+
+// Describe this response only, a replay gets fresh ones
+const VOLATILE_HEADERS = new Set([
+  'connection', 'content-length', 'date', 'keep-alive', 'transfer-encoding',
+  'retry-after', 'x-cache', 'x-db-time', 'x-pool-wait', 'x-server-time'
+])
+
+const outcomes = new Counter({
+  name: 'http_idempotent_requests_total',
+  help: 'Requests with an Idempotency-Key by outcome: stored, replayed, in_progress (409) or mismatch (422).',
+  labelNames: ['route', 'outcome'],
+  registers: [register]
+})
+
+// Same method, URL (query included) and validated body
+function fingerprint(request: FastifyRequest): string {
+  return createHash('sha256')
+    .update(`${request.method} ${request.url}\n${JSON.stringify(request.body ?? null)}`)
+    .digest('hex')
+}
+
+function storedHeaders(reply: FastifyReply): Record<string, string | string[]> {
+  const headers: Record<string, string | string[]> = {}
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value === undefined || VOLATILE_HEADERS.has(name) || name.startsWith('ratelimit-')) continue
+    headers[name] = Array.isArray(value) ? value : String(value)
+  }
+  return headers
+}
+
+/**
+ * This plugin makes retries of routes marked `config: { idempotent: true }`
+ * safe. The first request with a given `Idempotency-Key` claims it for its
+ * client, and its response (status, headers, body) is kept for
+ * IDEMPOTENCY_TTL_SECONDS and replayed to later requests with the same key.
+ * A retry while the first one still runs gets 409, and the same key with a
+ * different payload gets 422. Server errors release the key so the request
+ * can be retried, unless a write may already have committed: then the error
+ * is stored like any other response.
+ *
+ * The claim is kept when the client disconnects: the handler still runs to
+ * the end, and its response is stored for the retry.
+ *
+ * Records live in the `idempotency_key` table on the primary, so every
+ * worker sees them and clearing or evicting cache entries can't lose them.
+ *
+ * @see https://datatracker.ietf.org/doc/draft-ietf-httpapi-idempotency-key-header/
+ */
+export default fp(async (fastify) => {
+  const { ttlSeconds, pendingTtlSeconds } = config.idempotency
+
+  const purge = setInterval(() => {
+    pool.query('DELETE FROM idempotency_key WHERE expires_at <= now()')
+      .catch(error => fastify.log.error({ err: error }, 'Idempotency purge error'))
+  }, PURGE_INTERVAL_MS)
+  purge.unref()
+  fastify.addHook('onClose', async () => clearInterval(purge))
+
+  // Keys claimed by requests still running, until their response is stored or the key released
+  const claims = new WeakMap<FastifyRequest, { key: string; fingerprint: string }>()
+
+  async function claim(key: string, fingerprint: string): Promise<IdempotencyRecord | null> {
+    // A second try covers a key released between the two queries
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const claimed = await pool.query(CLAIM_SQL, [key, fingerprint, pendingTtlSeconds])
+      if (claimed.rowCount) return null
+      const { rows } = await pool.query<IdempotencyRow>(
+        'SELECT fingerprint, status_code, headers, body FROM idempotency_key WHERE key = $1',
+        [key]
+      )
+      const row = rows[0]
+      if (!row) continue
+      return row.status_code === null
+        ? { state: 'pending', fingerprint: row.fingerprint }
+        : { state: 'done', fingerprint: row.fingerprint, statusCode: row.status_code, headers: row.headers ?? {}, body: row.body ?? '' }
+    }
+    return { state: 'pending', fingerprint }
+  }
+
+  const release = (request: FastifyRequest, key: string) => {
+    pool.query('DELETE FROM idempotency_key WHERE key = $1 AND status_code IS NULL', [key])
+      .catch(error => request.log.error({ err: error }, 'Idempotency release error'))
+  }
+
+  // After validation, so the fingerprint covers the parsed body
+  fastify.addHook('preHandler', async (request, reply) => {
+    const route = request.routeOptions.url
+    if (!route || !request.routeOptions.config.idempotent) return
+    const header = request.headers['idempotency-key']
+    if (header === undefined) return
+    if (typeof header !== 'string' || header.length === 0 || header.length > MAX_KEY_LENGTH) {
+      return reply.code(400).send({ error: `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters` })
+    }
+
+    const key = `${clientId(request)}:${header}`
+    const print = fingerprint(request)
+    const existing = await claim(key, print)
+    if (!existing) {
+      claims.set(request, { key, fingerprint: print })
+      return
+    }
+
+    if (existing.fingerprint !== print) {
+      outcomes.inc({ route, outcome: 'mismatch' })
+      return reply.code(422).send({ error: 'Idempotency-Key was already used with a different request' })
+    }
+    if (existing.state === 'pending') {
+      outcomes.inc({ route, outcome: 'in_progress' })
+      return reply.code(409).header('Retry-After', '1').send({ error: 'A request with this Idempotency-Key is still in progress' })
+    }
+    outcomes.inc({ route, outcome: 'replayed' })
+    return reply
+      .code(existing.statusCode)
+      .headers(existing.headers)
+      .header('Idempotent-Replayed', 'true')
+      .send(existing.body)
+  })
+
+  // Also runs for requests whose client already disconnected
+  fastify.addHook('onSend', async (request, reply, payload) => {
+    const claimed = claims.get(request)
+    if (!claimed) return payload
+    claims.delete(request)
+    const retryable = reply.statusCode >= 500 && !mayHaveCommitted(request)
+    if (retryable || !(typeof payload === 'string' || Buffer.isBuffer(payload))) {
+      release(request, claimed.key)
+      return payload
+    }
+
+    const stored = pool.query(
+      'UPDATE idempotency_key SET status_code = $2, headers = $3, body = $4, expires_at = now() + $5 * interval \'1 second\' WHERE key = $1',
+      [claimed.key, reply.statusCode, JSON.stringify(storedHeaders(reply)), payload.toString(), ttlSeconds]
+    ).then(
+      () => { outcomes.inc({ route: request.routeOptions.url!, outcome: 'stored' }) },
+      (error) => { request.log.error({ err: error }, 'Idempotency store error') }
+    )
+    // Without a client nothing waits for the response, and holding it back would
+    // let Fastify's end-of-reply handling for the closed socket send a second time
+    if (!reply.raw.destroyed) await stored
+    return payload
+  })
+})
@@ -0,0 +1,93 @@
+import fp from 'fastify-plugin'
+import metricsPlugin from 'fastify-metrics'
+import { Gauge, Histogram } from 'prom-client'
+import type { FastifyRequest } from 'fastify'
+import { config } from '../config.js'
+import { register } from '../db/connection.js'
+import { dbTiming } from '../db/timing.js'
+
+const inFlight = new Gauge({
+  name: 'http_requests_in_flight',
+  help: 'Requests received and not yet answered.',
+  registers: [register]
+})
+
+const dbSeconds = new Histogram({
+  name: 'http_request_db_seconds',
+  help: 'Time a request spent running database queries (X-DB-Time).',
+  labelNames: ['method', 'route'],
+  buckets: config.metrics.dbBuckets,
+  registers: [register]
+})
+
+const poolWaitSeconds = new Histogram({
+  name: 'http_request_pool_wait_seconds',
+  help: 'Time a request waited for pool connections (X-Pool-Wait).',
+  labelNames: ['method', 'route'],
+  buckets: config.metrics.dbBuckets,
+  registers: [register]
+})
+
+/**
+ * This plugin records RED metrics for every registered route, labelled with
+ * the method and route template: `http_request_duration_seconds` (its
+ * `_count` by `status_code` class gives rate and errors), the requests in
+ * flight, and the database time and pool wait of each request.
+ * It also sets X-Server-Time on every response.
+ *
+ * @see https://github.com/SkeLLLa/fastify-metrics
+ */
+export default fp(async (fastify) => {
+  await fastify.register(metricsPlugin, {
+    // Served cluster-wide by routes/crud.ts
+    endpoint: null,
+    // Collected in db/connection.ts
+    defaultMetrics: { enabled: false },
+    routeMetrics: {
+      enabled: { histogram: true, summary: false },
+      groupStatusCodes: true,
+      overrides: {
+        histogram: {
+          help: 'Request duration in seconds by method, route and status class.',
+          buckets: config.metrics.httpBuckets,
+          registers: [register]
+        },
+        // Disabled above, keep it out of every registry
+        summary: { registers: [] }
+      }
+    }
+  })
+
+  const pending = new WeakSet<FastifyRequest>()
+  const done = (request: FastifyRequest) => {
+    if (pending.delete(request)) inFlight.dec()
+  }
+
+  fastify.addHook('onRequest', async (request) => {
+    (request as any)._t0 = process.hrtime.bigint()
+    pending.add(request)
+    inFlight.inc()
+  })
+
+  fastify.addHook('onSend', async (request, reply, payload) => {
+    const t0 = (request as any)._t0
+    if (t0) {
+      const totalMs = Number(process.hrtime.bigint() - t0) / 1e6
+      reply.header('X-Server-Time', totalMs.toFixed(2))
+    }
+    return payload
+  })
+
+  fastify.addHook('onResponse', async (request) => {
+    done(request)
+    const timing = dbTiming(request)
+    if (!timing || !request.routeOptions.url) return
+    const labels = { method: request.method, route: request.routeOptions.url }
+    dbSeconds.observe(labels, timing.dbMs / 1000)
+    poolWaitSeconds.observe(labels, timing.poolWaitMs / 1000)
+  })
+
+  fastify.addHook('onRequestAbort', async (request) => {
+    done(request)
+  })
+})
@@ -0,0 +1,108 @@
+import fp from 'fastify-plugin'
+import { Counter, Gauge } from 'prom-client'
+import type { FastifyRequest } from 'fastify'
+import { config } from '../config.js'
+import { namedPools, register } from '../db/connection.js'
+
+export type RequestPriority = 'critical' | 'normal' | 'low'
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // critical routes are never shed, low ones are shed at half the limits (default normal)
+    priority?: RequestPriority
+  }
+}
+
+type ShedReason = 'concurrency' | 'pool_waiting' | 'event_loop'
+
+const shedTotal = new Counter({
+  name: 'http_requests_shed_total',
+  help: 'Requests rejected with 503 before running, by route, priority and the limit crossed.',
+  labelNames: ['route', 'priority', 'reason'],
+  registers: [register]
+})
+
+const activeRequests = new Gauge({
+  name: 'overload_active_requests',
+  help: 'Admitted requests in progress, critical routes excluded.',
+  registers: [register]
+})
+
+const loopLagSeconds = new Gauge({
+  name: 'overload_event_loop_lag_seconds',
+  help: 'Smoothed event-loop lag used for shedding.',
+  registers: [register]
+})
+
+// Timer drift every SAMPLE_MS, smoothed so a single slow tick doesn't shed
+const SAMPLE_MS = 100
+const SMOOTHING = 0.3
+
+/**
+ * This plugin sheds load before it reaches the pools: a request is answered
+ * 503 with Retry-After when the worker already runs OVERLOAD_MAX_CONCURRENT
+ * requests, when a pool has OVERLOAD_POOL_WAITING_MAX checkouts queued, or
+ * when the event loop lags more than OVERLOAD_EVENT_LOOP_LAG_MS. Routes opt
+ * out with `config: { priority: 'critical' }` (health, metrics) and heavy
+ * ones are shed first with `priority: 'low'`.
+ */
+export default fp(async (fastify) => {
+  const { enabled, maxConcurrent, poolWaitingMax, eventLoopLagMs, retryAfterSeconds } = config.overload
+  if (!enabled) return
+
+  // Sampling starts once the server is ready: plugin loading and startup work
+  // block the loop too, and would shed the first requests after boot
+  let lagMs = 0
+  let sampler: NodeJS.Timeout | undefined
+  fastify.addHook('onReady', async () => {
+    let expected = performance.now() + SAMPLE_MS
+    sampler = setInterval(() => {
+      const now = performance.now()
+      lagMs = lagMs * (1 - SMOOTHING) + Math.max(0, now - expected) * SMOOTHING
+      expected = now + SAMPLE_MS
+      loopLagSeconds.set(lagMs / 1000)
+    }, SAMPLE_MS)
+    sampler.unref()
+  })
+  fastify.addHook('onClose', async () => clearInterval(sampler))
+
+  let active = 0
+  const admitted = new WeakSet<FastifyRequest>()
+  const done = (request: FastifyRequest) => {
+    if (!admitted.delete(request)) return
+    active--
+    activeRequests.set(active)
+  }
+
+  function overloaded(priority: RequestPriority): ShedReason | null {
+    // Low priority work gives way while there is still room for normal requests
+    const share = priority === 'low' ? 0.5 : 1
+    if (active >= maxConcurrent * share) return 'concurrency'
+    const waiting = Math.max(...namedPools.map(({ pool }) => pool.waitingCount))
+    if (waiting >= poolWaitingMax * share) return 'pool_waiting'
+    if (lagMs >= eventLoopLagMs * share) return 'event_loop'
+    return null
+  }
+
+  fastify.addHook('onRequest', async (request, reply) => {
+    const route = request.routeOptions.url
+    const priority = request.routeOptions.config.priority ?? 'normal'
+    // 404s never reach the database
+    if (!route || priority === 'critical') return
+
+    const reason = overloaded(priority)
+    if (reason) {
+      shedTotal.inc({ route, priority, reason })
+      return reply
+        .code(503)
+        .header('Retry-After', String(retryAfterSeconds))
+        .send({ error: 'Server overloaded, retry later' })
+    }
+    admitted.add(request)
+    active++
+    activeRequests.set(active)
+  })
+
+  fastify.addHook('onResponse', async (request) => done(request))
+  fastify.addHook('onRequestAbort', async (request) => done(request))
+})
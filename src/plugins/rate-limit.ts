@@ -0,0 +1,81 @@
+import fp from 'fastify-plugin'
+import { Counter } from 'prom-client'
+import type { FastifyRequest } from 'fastify'
+import { clientId } from '../auth/client.js'
+import { createMemoryBackend, TokenBucket, TokenBucketResult } from '../cache/index.js'
+import { config } from '../config.js'
+import { register } from '../db/connection.js'
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // Own bucket per client for this route, false = not limited (default: the client's shared bucket)
+    rateLimit?: TokenBucket | false
+  }
+}
+
+const limited = new Counter({
+  name: 'http_requests_rate_limited_total',
+  help: 'Requests answered 429 because the client ran out of tokens.',
+  labelNames: ['route'],
+  registers: [register]
+})
+
+/**
+ * This plugin limits every client (the authenticated principal, otherwise
+ * the IP) with token buckets kept in the shared cache backend, so the
+ * limits hold across all workers. Clearing the cache leaves the buckets
+ * alone. Without a shared backend (Redis or Upstash), or while it fails,
+ * each worker counts on its own. Responses carry the RateLimit-* headers and
+ * clients over their limit get 429 with Retry-After. Critical routes are
+ * never limited. Only active with RATE_LIMIT_ENABLED=true.
+ *
+ * @see https://datatracker.ietf.org/doc/draft-ietf-httpapi-ratelimit-headers/
+ */
+export default fp(async (fastify) => {
+  if (!config.rateLimit.enabled) return
+
+  const local = createMemoryBackend({ maxEntries: config.cache.memoryMaxEntries })
+  fastify.addHook('onClose', async () => local.close())
+
+  // cacheBackend is decorated by plugins/redis.ts, which loads after this one
+  async function take(key: string, bucket: TokenBucket, request: FastifyRequest): Promise<TokenBucketResult> {
+    // The in-process cache is per worker anyway, and its LRU would evict buckets to make room for cache entries
+    const shared = fastify.cacheBackend?.name === 'memory' ? null : fastify.cacheBackend
+    if (!shared) return await local.takeTokens(key, bucket, 1)
+    try {
+      return await shared.takeTokens(key, bucket, 1)
+    } catch (error) {
+      request.log.warn({ err: error }, 'Rate limit backend error, counting in this worker')
+      return await local.takeTokens(key, bucket, 1)
+    }
+  }
+
+  fastify.addHook('onRequest', async (request, reply) => {
+    const route = request.routeOptions.url
+    const { priority, rateLimit } = request.routeOptions.config
+    if (!route || priority === 'critical' || rateLimit === false) return
+
+    const bucket = rateLimit ?? config.rateLimit.default
+    const key = rateLimit
+      ? `ratelimit:${clientId(request)}:${request.method}:${route}`
+      : `ratelimit:${clientId(request)}`
+    const { allowed, tokens } = await take(key, bucket, request)
+
+    // Seconds until the bucket is full again, the closest thing a bucket has to a window
+    const { capacity, refillPerSecond } = bucket
+    reply.headers({
+      'RateLimit-Limit': capacity,
+      'RateLimit-Remaining': Math.floor(tokens),
+      'RateLimit-Reset': Math.ceil((capacity - tokens) / refillPerSecond),
+      'RateLimit-Policy': `${capacity};w=${Math.ceil(capacity / refillPerSecond)}`
+    })
+    if (allowed) return
+
+    const retryAfter = Math.max(1, Math.ceil((1 - tokens) / refillPerSecond))
+    limited.inc({ route })
+    return reply
+      .code(429)
+      .header('Retry-After', String(retryAfter))
+      .send({ error: `Rate limit exceeded, retry in ${retryAfter}s` })
+  })
+})
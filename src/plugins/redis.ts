@@ -1,14 +1,91 @@
 import fp from 'fastify-plugin';
-import { Redis } from '@upstash/redis';
-import { FastifyInstance } from 'fastify';
+import { randomUUID } from 'node:crypto';
+import { FastifyBaseLogger, FastifyInstance, FastifyReply } from 'fastify';
+import {
+  CacheBackend,
+  CacheBackendName,
+  CacheBackendSetting,
+  createCacheBackend,
+  createMemoryBackend
+} from '../cache/index.js';
+import { Codec, CodecName, CompressionName, createCodec } from '../cache/codec.js';
+import { createInvalidationBus, InvalidationBus } from '../cache/invalidation.js';
+import { recordTierLookup, tierSnapshot, TierCounters } from '../cache/metrics.js';
+import { config } from '../config.js';
+import { isPinned } from '../db/routing.js';
 
 
 export interface RedisPluginOptions {
+  // Overrides CACHE_BACKEND
+  backend?: CacheBackendSetting;
+  // Overrides REDIS_URL
+  redisUrl?: string;
+  // Override UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN
   url?: string;
   token?: string;
+  // Overrides CACHE_L1_ENABLED
+  l1?: boolean;
+  // Override CACHE_CODEC / CACHE_COMPRESSION
+  codec?: CodecName;
+  compression?: CompressionName;
 }
 
 
+export type CacheMode = CacheBackendName | 'mock';
+
+export interface CacheInfo {
+  mode: CacheMode;
+  provider: string;
+  host: string | null;
+  // Why the mock fallback is active (missing credentials, failed ping, ...)
+  reason: string | null;
+  // Per-worker in-process tier in front of a shared backend
+  l1: { enabled: boolean; ttlSeconds: number | null };
+  // Value encoding of the shared tier, e.g. `v1:json+gzip` (plain `json` for the memory backend, null in mock mode)
+  format: string | null;
+  since: string;
+}
+
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+  errors: number;
+  sets: number;
+  deletes: number;
+  // Stale values served while a refresh runs in the background
+  stale: number;
+  // Callers that joined an in-flight fetch instead of querying themselves
+  coalesced: number;
+}
+
+export interface CacheCounterSnapshot extends CacheCounters {
+  hitRatio: number | null;
+}
+
+export interface CacheStats {
+  since: string;
+  total: CacheCounterSnapshot;
+  prefixes: Record<string, CacheCounterSnapshot>;
+  // Lookups per tier since process start (not affected by resetStats)
+  tiers: { l1: TierCounters; l2: TierCounters };
+}
+
+// Reported to clients through the X-Cache response header
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS' | 'BYPASS';
+
+export interface CacheOptions {
+  ttlSeconds?: number;
+  // Keep serving the value this long past ttlSeconds while one request refreshes it
+  staleSeconds?: number;
+  // Take a lock in the shared backend so only one worker queries on a miss
+  lock?: boolean;
+}
+
+export interface CacheResult<T> {
+  value: T;
+  status: CacheStatus;
+}
+
 export interface CacheUtils {
   get: <T = any>(key: string) => Promise<T | null>;
   set: (key: string, value: any, ttlSeconds?: number) => Promise<void>;
@@ -18,164 +95,572 @@ export interface CacheUtils {
   withCache: <T>(
     key: string,
     fetcher: () => Promise<T>,
-    ttlSeconds?: number
+    options?: number | CacheOptions
   ) => Promise<T>;
+  // Same as withCache but also tells the caller where the value came from
+  withCacheStatus: <T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    options?: number | CacheOptions
+  ) => Promise<CacheResult<T>>;
+  // Deletes every key matching a Redis glob pattern, returns the number removed
+  clear: (pattern?: string) => Promise<number>;
+  // Token to put in the keys of a namespace (e.g. 'world:list'), they all go out of use at once when it is bumped
+  generation: (namespace: string) => Promise<string>;
+  bumpGeneration: (namespace: string) => Promise<void>;
+  info: () => CacheInfo;
+  stats: () => CacheStats;
+  resetStats: () => void;
 }
 
 
 declare module 'fastify' {
   export interface FastifyInstance {
-    redis: Redis;
+    // null when caching is disabled and `cache` is the no-op mock
+    cacheBackend: CacheBackend | null;
     cache: CacheUtils;
   }
+
+  export interface FastifyReply {
+    // Read-through cache for route handlers, sets X-Cache and honours `Cache-Control: no-cache` and read-your-writes pinning
+    cached<T>(key: string, fetcher: () => Promise<T>, options?: number | CacheOptions): Promise<T>;
+  }
 }
 
-export default fp<RedisPluginOptions>(async (fastify: FastifyInstance, opts) => {
-  const redisUrl = opts.url || process.env.UPSTASH_REDIS_REST_URL;
-  const redisToken = opts.token || process.env.UPSTASH_REDIS_REST_TOKEN;
-
-  
-  if (!redisUrl || !redisToken) {
-    fastify.log.warn('⚠️  Redis credentials not provided - caching disabled');
-    
-    
-    const mockRedis = {
-      ping: async () => 'PONG',
-      get: async () => null,
-      set: async () => 'OK',
-      setex: async () => 'OK',
-      del: async () => 1,
-      exists: async () => 0,
-      flushall: async () => 'OK'
-    } as unknown as Redis;
-    
-    const mockCache: CacheUtils = {
-      async get<T = any>(key: string): Promise<T | null> { return null; },
-      async set(key: string, value: any, ttlSeconds?: number): Promise<void> {},
-      async del(key: string): Promise<void> {},
-      async exists(key: string): Promise<boolean> { return false; },
-      generateKey(...parts: (string | number)[]): string { return parts.join(':'); },
-      async withCache<T>(key: string, fetcher: () => Promise<T>, ttlSeconds?: number): Promise<T> {
-        return await fetcher(); 
+
+// Keys follow `{prefix}:{operation}:{parameters}`, stats are grouped by the first segment
+export function keyPrefix(key: string): string {
+  const idx = key.indexOf(':');
+  return idx === -1 ? key : key.slice(0, idx);
+}
+
+function emptyCounters(): CacheCounters {
+  return { hits: 0, misses: 0, errors: 0, sets: 0, deletes: 0, stale: 0, coalesced: 0 };
+}
+
+function snapshot(c: CacheCounters): CacheCounterSnapshot {
+  const lookups = c.hits + c.stale + c.misses;
+  return { ...c, hitRatio: lookups > 0 ? Number(((c.hits + c.stale) / lookups).toFixed(4)) : null };
+}
+
+function createStatsTracker() {
+  let since = new Date().toISOString();
+  let total = emptyCounters();
+  let prefixes = new Map<string, CacheCounters>();
+
+  return {
+    record(key: string, field: keyof CacheCounters, count: number = 1) {
+      const prefix = keyPrefix(key);
+      let counters = prefixes.get(prefix);
+      if (!counters) {
+        counters = emptyCounters();
+        prefixes.set(prefix, counters);
       }
+      counters[field] += count;
+      total[field] += count;
+    },
+
+    snapshot(): CacheStats {
+      const byPrefix: Record<string, CacheCounterSnapshot> = {};
+      for (const [prefix, counters] of prefixes) {
+        byPrefix[prefix] = snapshot(counters);
+      }
+      return { since, total: snapshot(total), prefixes: byPrefix, tiers: tierSnapshot() };
+    },
+
+    reset() {
+      since = new Date().toISOString();
+      total = emptyCounters();
+      prefixes = new Map();
+    }
+  };
+}
+
+type StatsTracker = ReturnType<typeof createStatsTracker>;
+
+// An expired generation only costs one round of misses
+const GENERATION_TTL_SECONDS = 86_400;
+// How long a worker's L1 keeps a generation token, bounds how long a bump
+// missed by the bus (e.g. made on another host) goes unseen
+const GENERATION_L1_TTL_SECONDS = 5;
+
+const PROVIDERS: Record<CacheBackendName, string> = {
+  memory: 'in-memory-lru',
+  redis: 'redis-tcp',
+  upstash: 'upstash-rest'
+};
+
+function createMockCache(stats: StatsTracker, reason: string): CacheUtils {
+  const info: CacheInfo = {
+    mode: 'mock',
+    provider: 'none',
+    host: null,
+    reason,
+    l1: { enabled: false, ttlSeconds: null },
+    format: null,
+    since: new Date().toISOString()
+  };
+
+  return {
+    async get<T = any>(key: string): Promise<T | null> {
+      stats.record(key, 'misses');
+      return null;
+    },
+    async set(key: string, value: any, ttlSeconds?: number): Promise<void> {},
+    async del(key: string): Promise<void> {},
+    async exists(key: string): Promise<boolean> { return false; },
+    generateKey(...parts: (string | number)[]): string { return parts.join(':'); },
+    async withCache<T>(key: string, fetcher: () => Promise<T>, options?: number | CacheOptions): Promise<T> {
+      stats.record(key, 'misses');
+      return await fetcher();
+    },
+    async withCacheStatus<T>(key: string, fetcher: () => Promise<T>, options?: number | CacheOptions): Promise<CacheResult<T>> {
+      stats.record(key, 'misses');
+      return { value: await fetcher(), status: 'BYPASS' };
+    },
+    async clear(pattern?: string): Promise<number> { return 0; },
+    async generation(namespace: string): Promise<string> { return '0'; },
+    async bumpGeneration(namespace: string): Promise<void> {},
+    info: () => info,
+    stats: () => stats.snapshot(),
+    resetStats: () => stats.reset()
+  };
+}
+
+// Defaults for withCache options, overridable per call
+export interface CacheDefaults {
+  ttlSeconds: number;
+  staleSeconds: number;
+  lock: boolean;
+  lockTtlSeconds: number;
+  // How long a worker that lost the lock polls for the winner's value before querying itself
+  lockWaitMs: number;
+}
+
+// Stored form of every value: `s` is the soft expiry (epoch ms) when stale-while-revalidate is used
+interface CacheEntry<T = unknown> {
+  v: T;
+  s?: number;
+}
+
+export interface CacheTiers {
+  // In-process cache, always present when l2 is null
+  l1: CacheBackend | null;
+  l1TtlSeconds: number;
+  // Shared backend (Redis/Upstash)
+  l2: CacheBackend | null;
+}
+
+function createBackendCache(
+  tiers: CacheTiers,
+  defaults: CacheDefaults,
+  codec: Codec,
+  bus: InvalidationBus,
+  stats: StatsTracker,
+  log: FastifyBaseLogger
+): CacheUtils {
+  const { l1, l2, l1TtlSeconds } = tiers;
+  const shared = (l2 ?? l1) as CacheBackend;
+  // Single-flight: one fetch per key per worker, concurrent callers share its promise
+  const inflight = new Map<string, Promise<unknown>>();
+
+  const info: CacheInfo = {
+    mode: shared.name,
+    provider: PROVIDERS[shared.name],
+    host: shared.host,
+    reason: null,
+    l1: { enabled: l1 !== null && l2 !== null, ttlSeconds: l1 && l2 ? l1TtlSeconds : null },
+    format: l2 ? codec.format : 'json',
+    since: new Date().toISOString()
+  };
+
+  // Other workers drop their L1 copy when this one writes or deletes
+  bus.subscribe(({ keys, pattern }) => {
+    if (!l1) return;
+    const pending = [];
+    if (keys?.length) pending.push(l1.del(...keys));
+    if (pattern) pending.push(l1.clear(pattern));
+    Promise.all(pending).catch((error) => log.error('L1 invalidation error:', error));
+  });
+
+  // Entries in an unknown or older format read as misses and get overwritten by the next fill
+  async function decodeEntry<T>(key: string, raw: string | null): Promise<CacheEntry<T> | null> {
+    if (raw === null) return null;
+    const entry = await codec.decode<CacheEntry<T>>(raw);
+    if (entry === undefined) {
+      log.debug(`Ignoring cache entry with unsupported format: ${key}`);
+      return null;
+    }
+    return entry;
+  }
+
+  // The in-process tier (L1, or the memory backend on its own) holds plain JSON,
+  // the codec only runs for the shared tier where its smaller payloads pay off
+  async function readEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+    if (l1) {
+      const raw = await l1.get(key);
+      recordTierLookup('l1', raw !== null);
+      if (raw !== null) return JSON.parse(raw) as CacheEntry<T>;
+      if (!l2) return null;
+    }
+
+    const raw = await (l2 as CacheBackend).get(key);
+    recordTierLookup('l2', raw !== null);
+    const entry = await decodeEntry<T>(key, raw);
+    if (entry && l1) {
+      await l1.set(key, JSON.stringify(entry), l1TtlSeconds);
+    }
+    return entry;
+  }
+
+  function isFresh(entry: CacheEntry): boolean {
+    return entry.s === undefined || entry.s > Date.now();
+  }
+
+  function resolveOptions(options?: number | CacheOptions): Required<CacheOptions> {
+    const opts = typeof options === 'number' ? { ttlSeconds: options } : options || {};
+    return {
+      ttlSeconds: opts.ttlSeconds ?? defaults.ttlSeconds,
+      staleSeconds: opts.staleSeconds ?? defaults.staleSeconds,
+      lock: opts.lock ?? defaults.lock
     };
+  }
 
-    fastify.decorate('redis', mockRedis);
-    fastify.decorate('cache', mockCache);
-    return;
+  function envelope(value: unknown, ttlSeconds?: number, staleSeconds: number = 0): { entry: CacheEntry; ttl?: number } {
+    if (staleSeconds > 0 && ttlSeconds) {
+      return { entry: { v: value, s: Date.now() + ttlSeconds * 1000 }, ttl: ttlSeconds + staleSeconds };
+    }
+    return { entry: { v: value }, ttl: ttlSeconds };
   }
 
-  
-  const redis = new Redis({
-    url: redisUrl,
-    token: redisToken,
-  });
+  async function fill<T>(key: string, value: T, opts: Required<CacheOptions>): Promise<void> {
+    // Don't cache misses (e.g. 404 lookups), they'd just be read back as null.
+    // A fill after a miss doesn't replace anything, so no need to notify other workers.
+    if (value === null || value === undefined) return;
+    try {
+      const { entry, ttl } = envelope(value, opts.ttlSeconds, opts.staleSeconds);
+      await write(key, entry, ttl);
+      stats.record(key, 'sets');
+    } catch (error) {
+      stats.record(key, 'errors');
+      log.error('Redis SET error:', error);
+    }
+  }
 
-  
-  try {
-    await redis.ping();
-    fastify.log.info('✅ Connected to Upstash Redis');
-  } catch (error) {
-    fastify.log.error('❌ Failed to connect to Redis:', error);
-    fastify.log.warn('⚠️  Continuing without Redis - caching disabled');
-    
-    
-    const mockCache: CacheUtils = {
-      async get<T = any>(key: string): Promise<T | null> { return null; },
-      async set(key: string, value: any, ttlSeconds?: number): Promise<void> {},
-      async del(key: string): Promise<void> {},
-      async exists(key: string): Promise<boolean> { return false; },
-      generateKey(...parts: (string | number)[]): string { return parts.join(':'); },
-      async withCache<T>(key: string, fetcher: () => Promise<T>, ttlSeconds?: number): Promise<T> {
-        return await fetcher(); 
+  async function fetchAndFill<T>(key: string, fetcher: () => Promise<T>, opts: Required<CacheOptions>): Promise<T> {
+    const value = await fetcher();
+    await fill(key, value, opts);
+    return value;
+  }
+
+  // Only one worker fetches, the rest poll the shared tier for its result
+  async function fetchWithLock<T>(key: string, fetcher: () => Promise<T>, opts: Required<CacheOptions>): Promise<T> {
+    const backend = l2 as CacheBackend;
+    const lockKey = `lock:${key}`;
+    const token = `${process.pid}:${Math.random().toString(36).slice(2)}`;
+
+    let acquired = false;
+    try {
+      acquired = await backend.setIfAbsent(lockKey, token, defaults.lockTtlSeconds);
+    } catch (error) {
+      log.error('Redis LOCK error:', error);
+      return await fetchAndFill(key, fetcher, opts);
+    }
+
+    if (acquired) {
+      try {
+        return await fetchAndFill(key, fetcher, opts);
+      } finally {
+        // Not atomic, but the lock TTL bounds the damage if it expired and was re-taken in between
+        if (await backend.get(lockKey).catch(() => null) === token) {
+          await backend.del(lockKey).catch(() => 0);
+        }
       }
-    };
+    }
 
-    fastify.decorate('redis', { ping: async () => 'MOCK' } as unknown as Redis);
-    fastify.decorate('cache', mockCache);
-    return;
+    const deadline = Date.now() + defaults.lockWaitMs;
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 25));
+      const raw = await backend.get(key).catch(() => null);
+      const entry = await decodeEntry<T>(key, raw);
+      if (entry && isFresh(entry)) {
+        stats.record(key, 'coalesced');
+        return entry.v;
+      }
+    }
+
+    // Lock holder is too slow (or died), query ourselves
+    return await fetchAndFill(key, fetcher, opts);
   }
 
-  
-  const cache: CacheUtils = {
-    
+  function refresh<T>(key: string, fetcher: () => Promise<T>, opts: Required<CacheOptions>): Promise<T> {
+    const pending = inflight.get(key);
+    if (pending) {
+      stats.record(key, 'coalesced');
+      return pending as Promise<T>;
+    }
+
+    const promise = (opts.lock && l2
+      ? fetchWithLock(key, fetcher, opts)
+      : fetchAndFill(key, fetcher, opts)
+    ).finally(() => inflight.delete(key));
+    inflight.set(key, promise);
+    return promise;
+  }
+
+  async function write(key: string, entry: CacheEntry, ttlSeconds?: number): Promise<void> {
+    if (l2) await l2.set(key, await codec.encode(entry), ttlSeconds);
+    if (l1) {
+      // With a shared tier behind it, L1 only holds a short-lived copy
+      const l1Ttl = l2 ? Math.min(ttlSeconds || l1TtlSeconds, l1TtlSeconds) : ttlSeconds;
+      await l1.set(key, JSON.stringify(entry), l1Ttl);
+    }
+  }
+
+  return {
+
     async get<T = any>(key: string): Promise<T | null> {
       try {
-        const result = await redis.get(key);
-        return result as T;
+        const entry = await readEntry<T>(key);
+        const hit = entry !== null && isFresh(entry);
+        stats.record(key, hit ? 'hits' : 'misses');
+        return hit ? entry.v : null;
       } catch (error) {
-        fastify.log.error('Redis GET error:', error);
+        stats.record(key, 'errors');
+        log.error('Redis GET error:', error);
         return null;
       }
     },
 
-    
+
     async set(key: string, value: any, ttlSeconds?: number): Promise<void> {
       try {
-        if (ttlSeconds) {
-          await redis.setex(key, ttlSeconds, JSON.stringify(value));
-        } else {
-          await redis.set(key, JSON.stringify(value));
-        }
+        const { entry, ttl } = envelope(value, ttlSeconds);
+        await write(key, entry, ttl);
+        bus.publish({ keys: [key] });
+        stats.record(key, 'sets');
       } catch (error) {
-        fastify.log.error('Redis SET error:', error);
+        stats.record(key, 'errors');
+        log.error('Redis SET error:', error);
       }
     },
 
-    
+
     async del(key: string): Promise<void> {
       try {
-        await redis.del(key);
+        await Promise.all([l1?.del(key), l2?.del(key)]);
+        bus.publish({ keys: [key] });
+        stats.record(key, 'deletes');
       } catch (error) {
-        fastify.log.error('Redis DEL error:', error);
+        stats.record(key, 'errors');
+        log.error('Redis DEL error:', error);
       }
     },
 
-    
+
     async exists(key: string): Promise<boolean> {
       try {
-        const result = await redis.exists(key);
-        return result === 1;
+        return await shared.exists(key);
       } catch (error) {
-        fastify.log.error('Redis EXISTS error:', error);
+        stats.record(key, 'errors');
+        log.error('Redis EXISTS error:', error);
         return false;
       }
     },
 
-    
+
     generateKey(...parts: (string | number)[]): string {
       return parts.join(':');
     },
 
-    
+
     async withCache<T>(
       key: string,
       fetcher: () => Promise<T>,
-      ttlSeconds: number = 300 
+      options?: number | CacheOptions
     ): Promise<T> {
-      
-      const cached = await this.get<T>(key);
-      if (cached !== null) {
-        return cached;
+      const { value } = await this.withCacheStatus(key, fetcher, options);
+      return value;
+    },
+
+
+    async withCacheStatus<T>(
+      key: string,
+      fetcher: () => Promise<T>,
+      options?: number | CacheOptions
+    ): Promise<CacheResult<T>> {
+      const opts = resolveOptions(options);
+
+      let entry: CacheEntry<T> | null = null;
+      try {
+        entry = await readEntry<T>(key);
+      } catch (error) {
+        stats.record(key, 'errors');
+        log.error('Redis GET error:', error);
+      }
+
+      if (entry && isFresh(entry)) {
+        stats.record(key, 'hits');
+        return { value: entry.v, status: 'HIT' };
+      }
+
+      // Past its soft expiry: answer with the old value, refresh once in the background
+      if (entry) {
+        stats.record(key, 'stale');
+        refresh(key, fetcher, opts).catch((error) => log.error('Cache refresh error:', error));
+        return { value: entry.v, status: 'STALE' };
+      }
+
+      stats.record(key, 'misses');
+      return { value: await refresh(key, fetcher, opts), status: 'MISS' };
+    },
+
+
+    async clear(pattern: string = '*'): Promise<number> {
+      try {
+        const [, cleared] = await Promise.all([
+          l2 ? l1?.clear(pattern) : undefined,
+          shared.clear(pattern)
+        ]);
+        bus.publish({ pattern });
+        stats.record(pattern, 'deletes', cleared);
+        return cleared;
+      } catch (error) {
+        stats.record(pattern, 'errors');
+        log.error('Redis CLEAR error:', error);
+        return 0;
       }
+    },
+
 
-      
-      const result = await fetcher();
-      
-      
-      await this.set(key, result, ttlSeconds);
-      
-      return result;
+    // Plain tokens in the shared tier, no codec. With an L1 in front a worker keeps
+    // its copy for a few seconds, so list hits don't pay an L2 round-trip; a bump
+    // drops the copies of other workers over the bus. A missing token (expired, or
+    // dropped from another worker's memory backend by the bus) starts a new namespace.
+    async generation(namespace: string): Promise<string> {
+      const key = `${namespace}:gen`;
+      const fresh = randomUUID();
+      const local = l2 ? l1 : null;
+      try {
+        const copy = await local?.get(key);
+        if (copy) return copy;
+        let current = await shared.get(key);
+        if (current === null) {
+          current = await shared.setIfAbsent(key, fresh, GENERATION_TTL_SECONDS) ? fresh : (await shared.get(key)) ?? fresh;
+        }
+        await local?.set(key, current, Math.min(GENERATION_L1_TTL_SECONDS, l1TtlSeconds));
+        return current;
+      } catch (error) {
+        stats.record(key, 'errors');
+        log.error('Redis GENERATION error:', error);
+        return fresh;
+      }
+    },
+
+
+    async bumpGeneration(namespace: string): Promise<void> {
+      const key = `${namespace}:gen`;
+      try {
+        const token = randomUUID();
+        await shared.set(key, token, GENERATION_TTL_SECONDS);
+        if (l2) await l1?.set(key, token, Math.min(GENERATION_L1_TTL_SECONDS, l1TtlSeconds));
+        bus.publish({ keys: [key] });
+      } catch (error) {
+        stats.record(key, 'errors');
+        log.error('Redis GENERATION error:', error);
+      }
+    },
+
+    info: () => info,
+    stats: () => stats.snapshot(),
+    resetStats: () => stats.reset()
+  };
+}
+
+export default fp<RedisPluginOptions>(async (fastify: FastifyInstance, opts) => {
+  const stats = createStatsTracker();
+
+  fastify.decorateReply('cached', async function <T>(
+    this: FastifyReply,
+    key: string,
+    fetcher: () => Promise<T>,
+    options?: number | CacheOptions
+  ): Promise<T> {
+    // Pinned requests read their own writes from the primary, the cache may be older
+    const cacheControl = this.request.headers['cache-control'];
+    if ((cacheControl && /no-cache|no-store/.test(cacheControl)) || isPinned(this.request)) {
+      this.header('X-Cache', 'BYPASS');
+      return await fetcher();
     }
+
+    const { value, status } = await fastify.cache.withCacheStatus(key, fetcher, options);
+    this.header('X-Cache', status);
+    return value;
+  });
+
+
+  // Misconfiguration (unknown backend, missing URL) is fatal, an unreachable backend is not
+  const backend = createCacheBackend({
+    backend: opts.backend || config.cache.backend,
+    redisUrl: opts.redisUrl || config.cache.redisUrl,
+    upstashUrl: opts.url || config.cache.upstash.url,
+    upstashToken: opts.token || config.cache.upstash.token,
+    memoryMaxEntries: config.cache.memoryMaxEntries
+  });
+
+  if (!backend) {
+    fastify.log.warn('⚠️  CACHE_BACKEND=none - caching disabled');
+    fastify.decorate('cacheBackend', null);
+    fastify.decorate('cache', createMockCache(stats, 'CACHE_BACKEND=none'));
+    return;
+  }
+
+
+  try {
+    await backend.ping();
+    fastify.log.info(`✅ Cache backend ready: ${PROVIDERS[backend.name]}${backend.host ? ` (${backend.host})` : ''}`);
+  } catch (error) {
+    fastify.log.error(`❌ Failed to connect to ${PROVIDERS[backend.name]}:`, error);
+    fastify.log.warn('⚠️  Continuing without Redis - caching disabled');
+
+    await backend.close().catch(() => {});
+    fastify.decorate('cacheBackend', null);
+    fastify.decorate('cache', createMockCache(stats, `Failed to connect to ${backend.name}: ${(error as Error).message}`));
+    return;
+  }
+
+  // A memory backend is its own L1; Redis/Upstash get a per-worker L1 in front unless disabled
+  const l1Enabled = opts.l1 ?? config.cache.l1.enabled;
+  const tiers: CacheTiers = backend.name === 'memory'
+    ? { l1: backend, l2: null, l1TtlSeconds: 0 }
+    : {
+        l1: l1Enabled ? createMemoryBackend({ maxEntries: config.cache.memoryMaxEntries }) : null,
+        l2: backend,
+        l1TtlSeconds: config.cache.l1.ttlSeconds
+      };
+  const defaults: CacheDefaults = {
+    ttlSeconds: 300,
+    staleSeconds: config.cache.staleSeconds,
+    lock: config.cache.lock.enabled,
+    lockTtlSeconds: config.cache.lock.ttlSeconds,
+    lockWaitMs: config.cache.lock.waitMs
   };
+  const codec = createCodec({
+    codec: opts.codec || config.cache.codec,
+    compression: opts.compression || config.cache.compression,
+    compressionThreshold: config.cache.compressionThresholdBytes
+  });
+  const bus = createInvalidationBus();
+
+
+  fastify.decorate('cacheBackend', backend);
+  fastify.decorate('cache', createBackendCache(tiers, defaults, codec, bus, stats, fastify.log));
 
-  
-  fastify.decorate('redis', redis);
-  fastify.decorate('cache', cache);
 
-  
   fastify.addHook('onClose', async () => {
-    fastify.log.info('Closing Redis connection...');
-    
+    fastify.log.info('Closing cache backend...');
+    bus.close();
+    if (tiers.l1 && tiers.l1 !== backend) await tiers.l1.close();
+    await backend.close();
   });
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,48 @@
+import fp from 'fastify-plugin'
+import swagger from '@fastify/swagger'
+import swaggerUi from '@fastify/swagger-ui'
+import { config } from '../config.js'
+
+export interface SwaggerPluginOptions {
+  // Set to false to generate the spec without serving the UI (e.g. the export script)
+  ui?: boolean
+}
+
+/**
+ * This plugin builds an OpenAPI 3 document from the route schemas
+ * and serves it at /documentation/json with a Swagger UI at /documentation
+ *
+ * @see https://github.com/fastify/fastify-swagger
+ */
+export default fp<SwaggerPluginOptions>(async (fastify, opts) => {
+  await fastify.register(swagger, {
+    openapi: {
+      openapi: '3.0.3',
+      info: {
+        title: 'Fastify + pg Load Test API',
+        description: 'TechEmpower-style benchmark routes and CRUD endpoints for the world and fortune tables',
+        version: process.env.npm_package_version || '1.0.0'
+      },
+      tags: [
+        { name: 'benchmark', description: 'TechEmpower Framework Benchmark routes' },
+        { name: 'world', description: 'CRUD for the world table' },
+        { name: 'fortune', description: 'CRUD for the fortune table' },
+        { name: 'monitoring', description: 'Health, metrics and load generation' },
+        { name: 'cache', description: 'Cache management' }
+      ],
+      // Required by routes with a role, see plugins/auth.ts
+      components: {
+        securitySchemes: {
+          apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+          bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+        }
+      }
+    }
+  })
+
+  if (opts.ui !== false && config.server.swaggerUi) {
+    await fastify.register(swaggerUi, {
+      routePrefix: '/documentation'
+    })
+  }
+})
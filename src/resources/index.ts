@@ -0,0 +1,24 @@
+import { fortune, world } from '../db/schema.js';
+import { BenchmarkIdParams } from '../schemas/common.js';
+import { defineResource } from './resource.js';
+
+export * from './resource.js';
+
+// Adding a table to the API is one entry here, routes are registered by routes/crud.ts
+
+export const worldResource = defineResource({
+  name: 'world',
+  label: 'World record',
+  table: world,
+  getParams: BenchmarkIdParams
+});
+
+export const fortuneResource = defineResource({
+  name: 'fortune',
+  label: 'Fortune',
+  table: fortune,
+  // GET /fortunes caches the whole table under this key
+  cache: { invalidates: ['fortune:all'] }
+});
+
+export const resources = [worldResource, fortuneResource];
@@ -0,0 +1,171 @@
+import { createHash } from 'node:crypto';
+import { FILTER_OPERATORS } from '../schemas/table.js';
+
+export interface ListColumn {
+  // Drizzle property name, also the key in returned rows
+  key: string;
+  // Quoted SQL column name
+  name: string;
+  dataType: string;
+  primary: boolean;
+  // Whether a JSON value fits the column's type, for the values in a cursor
+  accepts(value: unknown): boolean;
+}
+
+// Position of the first/last row of a page in the chosen sort order
+export interface Cursor {
+  sort: string;
+  value: unknown;
+  id: unknown;
+  direction: 'next' | 'prev';
+}
+
+export interface ListPlan {
+  text: string;
+  values: unknown[];
+  countText: string;
+  countValues: unknown[];
+  limit: number;
+  cursor: Cursor | null;
+}
+
+export interface Page<T> {
+  data: T[];
+  next: string | null;
+  prev: string | null;
+  total?: number;
+}
+
+type Query = Record<string, unknown>;
+
+const SQL_OPERATORS: Record<string, string> = {
+  eq: '=', ne: '<>', gt: '>', gte: '>=', lt: '<', lte: '<=', contains: 'ILIKE', startsWith: 'ILIKE'
+};
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, c => `\\${c}`);
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id, cursor.direction])).toString('base64url');
+}
+
+// null for anything that is not a token we issued
+export function decodeCursor(token: string): Cursor | null {
+  try {
+    const [sort, value, id, direction] = JSON.parse(Buffer.from(token, 'base64url').toString());
+    if (typeof sort !== 'string' || id == null || (direction !== 'next' && direction !== 'prev')) return null;
+    return { sort, value, id, direction };
+  } catch {
+    return null;
+  }
+}
+
+// Stable, short identifier of a validated list query, used in cache keys
+export function queryHash(query: Query): string {
+  return createHash('sha1').update(canonicalQuery(query).toString()).digest('hex').slice(0, 16);
+}
+
+// Validated query (defaults applied) with keys sorted and unset values dropped
+export function canonicalQuery(query: Query, overrides: Query = {}): URLSearchParams {
+  const merged: Query = { ...query, ...overrides };
+  const params = new URLSearchParams();
+  for (const key of Object.keys(merged).sort()) {
+    const value = merged[key];
+    if (value === undefined || value === null || value === false) continue;
+    params.set(key, String(value));
+  }
+  return params;
+}
+
+// Builds the page query and the matching count query. Rows are ordered by the
+// sort column with the primary key as tie-breaker, so a cursor is just the
+// (value, id) pair of the row on the page boundary. Returns null for a cursor
+// that is malformed, was issued for a different sort or holds a value of the
+// wrong type for its column.
+export function planList(table: string, returning: string, columns: ListColumn[], query: Query): ListPlan | null {
+  const pk = columns.find(c => c.primary)!;
+  const sort = String(query.sort ?? pk.key);
+  const descending = sort.startsWith('-');
+  const sortColumn = columns.find(c => c.key === sort.replace(/^-/, '')) ?? pk;
+  const limit = Number(query.limit);
+
+  const where: string[] = [];
+  const values: unknown[] = [];
+  for (const column of columns) {
+    for (const op of FILTER_OPERATORS[column.dataType] ?? []) {
+      const value = query[`${column.key}[${op}]`];
+      if (value === undefined) continue;
+      values.push(op === 'contains' ? `%${escapeLike(String(value))}%`
+        : op === 'startsWith' ? `${escapeLike(String(value))}%`
+        : value);
+      where.push(`${column.name} ${SQL_OPERATORS[op]} $${values.length}`);
+    }
+  }
+
+  const filterWhere = where.length ? ` WHERE ${where.join(' AND ')}` : '';
+  const countText = `SELECT count(*)::int AS total FROM ${table}${filterWhere}`;
+  const countValues = [...values];
+
+  let cursor: Cursor | null = null;
+  if (typeof query.cursor === 'string') {
+    cursor = decodeCursor(query.cursor);
+    if (!cursor || cursor.sort !== sort || !pk.accepts(cursor.id)) return null;
+    if (sortColumn !== pk && !sortColumn.accepts(cursor.value)) return null;
+  }
+
+  // Walking backwards flips the comparison and the order, rows are reversed again in pageOf()
+  const backwards = cursor?.direction === 'prev';
+  const ascending = descending === backwards;
+  if (cursor) {
+    const op = ascending ? '>' : '<';
+    if (sortColumn === pk) {
+      values.push(cursor.id);
+      where.push(`${pk.name} ${op} $${values.length}`);
+    } else {
+      values.push(cursor.value, cursor.id);
+      where.push(`(${sortColumn.name}, ${pk.name}) ${op} ($${values.length - 1}, $${values.length})`);
+    }
+  }
+
+  const dir = ascending ? 'ASC' : 'DESC';
+  const orderBy = sortColumn === pk ? `${pk.name} ${dir}` : `${sortColumn.name} ${dir}, ${pk.name} ${dir}`;
+  // One extra row tells whether there is another page in the walking direction
+  values.push(limit + 1);
+  const text = `SELECT ${returning} FROM ${table}` +
+    (where.length ? ` WHERE ${where.join(' AND ')}` : '') +
+    ` ORDER BY ${orderBy} LIMIT $${values.length}`;
+
+  return { text, values, countText, countValues, limit, cursor };
+}
+
+// Trims the look-ahead row and builds next/prev links from the boundary rows
+export function pageOf<T extends Record<string, unknown>>(
+  rows: T[],
+  plan: ListPlan,
+  columns: ListColumn[],
+  query: Query,
+  link: (params: URLSearchParams) => string
+): Page<T> {
+  const pk = columns.find(c => c.primary)!;
+  const sort = String(query.sort ?? pk.key);
+  const sortKey = sort.replace(/^-/, '');
+
+  const backwards = plan.cursor?.direction === 'prev';
+  const more = rows.length > plan.limit;
+  const data = rows.slice(0, plan.limit);
+  if (backwards) data.reverse();
+
+  const hasNext = backwards || more;
+  const hasPrev = backwards ? more : plan.cursor !== null;
+
+  const to = (row: T | undefined, direction: Cursor['direction']) => {
+    if (!row) return null;
+    const token = encodeCursor({ sort, value: row[sortKey], id: row[pk.key], direction });
+    return link(canonicalQuery(query, { cursor: token }));
+  };
+
+  return {
+    data,
+    next: hasNext ? to(data[data.length - 1], 'next') : null,
+    prev: hasPrev ? to(data[0], 'prev') : null
+  };
+}
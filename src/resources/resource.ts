@@ -0,0 +1,496 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { getTableColumns, getTableName } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import { Readable } from 'node:stream';
+import { DatabaseError, PoolClient } from 'pg';
+import type { TSchema } from 'typebox';
+import { Compile } from 'typebox/compile';
+import Value from 'typebox/value';
+import { config } from '../config.js';
+import { rollback, withClient, withStreamingClient, withTransaction } from '../db/client.js';
+import { hasReplicas } from '../db/routing.js';
+import type { CacheUtils } from '../plugins/redis.js';
+import { BulkQuery, ErrorResponse, ExportQuery, IdParams } from '../schemas/common.js';
+import { bulkSchemas, columnSchema, listSchemas, PageSize, tableSchemas, TableSchemas } from '../schemas/table.js';
+import { ListColumn, pageOf, planList, queryHash } from './query.js';
+import { CONTENT_TYPES, cursorRows, ParsedRecord, parseRecords, serializeRows, TransferFormat } from './transfer.js';
+
+export interface ResourceDefinition {
+  // URL segment, OpenAPI tag and cache key prefix, e.g. 'world'
+  name: string;
+  // Used in route summaries and 404 messages, e.g. 'World record'
+  label: string;
+  table: PgTable;
+  // Params schema for GET /{name}/:id, defaults to any positive integer id
+  getParams?: TSchema;
+  // Page size of GET /{name}, `limit` above `max` is rejected (defaults 100/1000)
+  pageSize?: Partial<PageSize>;
+  // Max items per bulk request (default BULK_MAX_BATCH_SIZE)
+  maxBatchSize?: number;
+  cache?: {
+    rowTtlSeconds?: number;
+    listTtlSeconds?: number;
+    // Keys outside `{name}:id:*`/`{name}:list:*` that also hold rows of this table (e.g. 'fortune:all')
+    invalidates?: string[];
+  };
+}
+
+export interface Resource {
+  name: string;
+  table: PgTable;
+  schemas: TableSchemas;
+  // Registers list/get/create/replace/patch/delete/bulk routes under /{name}
+  routes: FastifyPluginAsyncTypebox;
+  // Drops cached rows and list pages after a committed write
+  invalidate(cache: CacheUtils, ids?: number[]): Promise<void>;
+  // Where a cache fill of these rows reads: 'fresh' (the primary) right after a write, otherwise 'read'
+  fillTarget(cache: CacheUtils): Promise<'read' | 'fresh'>;
+}
+
+type Row = Record<string, unknown>;
+
+interface BulkItem {
+  index: number;
+  id?: number;
+  status: 'created' | 'deleted' | 'not_found' | 'failed' | 'rolled_back';
+  row?: Row;
+  error?: string;
+}
+
+// Rows per FETCH from the export cursor
+const EXPORT_FETCH_SIZE = 1000;
+
+function bulkReport(mode: BulkQuery['mode'], results: BulkItem[]) {
+  const succeeded = results.filter(r => r.status === 'created' || r.status === 'deleted').length;
+  return { mode, succeeded, failed: results.length - succeeded, results };
+}
+
+const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`;
+
+export function defineResource(def: ResourceDefinition): Resource {
+  const table = quote(getTableName(def.table));
+  const columns: ListColumn[] = Object.entries(getTableColumns(def.table)).map(([key, column]) => {
+    const check = Compile(columnSchema(column));
+    return { key, name: quote(column.name), dataType: column.dataType, primary: column.primary, accepts: value => check.Check(value) };
+  });
+
+  const primary = columns.find(c => c.primary);
+  if (!primary) {
+    throw new Error(`Resource "${def.name}" needs a primary key column`);
+  }
+  const pk = primary;
+  const writable = columns.filter(c => !c.primary);
+  // Rows come back keyed by the Drizzle property names
+  const returning = columns.map(c => c.name === quote(c.key) ? c.name : `${c.name} AS ${quote(c.key)}`).join(', ');
+
+  const schemas = tableSchemas(def.table);
+  const list = listSchemas(def.table, { default: 100, max: 1000, ...def.pageSize });
+  const bulk = bulkSchemas(def.table, def.maxBatchSize ?? config.db.bulkMaxBatchSize);
+  const insertCheck = Compile(schemas.insert);
+  const rowTtl = def.cache?.rowTtlSeconds ?? 300;
+  const listTtl = def.cache?.listTtlSeconds ?? 60;
+  const tags = [def.name];
+
+  const sql = {
+    get: `SELECT ${returning} FROM ${table} WHERE ${pk.name} = $1`,
+    delete: `DELETE FROM ${table} WHERE ${pk.name} = $1 RETURNING ${pk.name}`,
+    deleteMany: `DELETE FROM ${table} WHERE ${pk.name} = ANY($1) RETURNING ${pk.name} AS id`,
+    export: `SELECT ${returning} FROM ${table} ORDER BY ${pk.name}`
+  };
+
+  // INSERT for the columns present in `body`
+  function insertStatement(body: Row): [string, unknown[]] {
+    const cols = writable.filter(c => body[c.key] !== undefined);
+    if (cols.length === 0) {
+      return [`INSERT INTO ${table} DEFAULT VALUES RETURNING ${returning}`, []];
+    }
+    return [
+      `INSERT INTO ${table} (${cols.map(c => c.name).join(', ')}) ` +
+      `VALUES (${cols.map((_, i) => `$${i + 1}`).join(', ')}) RETURNING ${returning}`,
+      cols.map(c => body[c.key])
+    ];
+  }
+
+  // One multi-row INSERT, columns missing from a record get their DEFAULT
+  function insertManyStatement(records: Row[]): [string, unknown[]] {
+    const used = writable.filter(c => records.some(r => r[c.key] !== undefined));
+    const cols = used.length > 0 ? used : [pk];
+    const values: unknown[] = [];
+    const tuples = records.map(r => `(${cols.map(c => {
+      if (r[c.key] === undefined) return 'DEFAULT';
+      values.push(r[c.key]);
+      return `$${values.length}`;
+    }).join(', ')})`);
+    return [
+      `INSERT INTO ${table} (${cols.map(c => c.name).join(', ')}) VALUES ${tuples.join(', ')} RETURNING ${returning}`,
+      values
+    ];
+  }
+
+  // partial mode: the set-based INSERT runs under a savepoint, if any row breaks
+  // it the batch is retried one row per savepoint to find out which ones
+  async function insertEach(client: PoolClient, records: Row[]): Promise<BulkItem[]> {
+    await client.query('SAVEPOINT bulk_insert');
+    try {
+      const [text, values] = insertManyStatement(records);
+      const res = await client.query(text, values);
+      await client.query('RELEASE SAVEPOINT bulk_insert');
+      return res.rows.map((row, index) => ({ index, id: row[pk.key], status: 'created', row }));
+    } catch (e) {
+      if (!(e instanceof DatabaseError)) throw e;
+      await client.query('ROLLBACK TO SAVEPOINT bulk_insert');
+    }
+
+    const results: BulkItem[] = [];
+    for (const [index, record] of records.entries()) {
+      await client.query('SAVEPOINT bulk_row');
+      try {
+        const [text, values] = insertStatement(record);
+        const res = await client.query(text, values);
+        await client.query('RELEASE SAVEPOINT bulk_row');
+        results.push({ index, id: res.rows[0][pk.key], status: 'created', row: res.rows[0] });
+      } catch (e) {
+        if (!(e instanceof DatabaseError)) throw e;
+        await client.query('ROLLBACK TO SAVEPOINT bulk_row');
+        results.push({ index, status: 'failed', error: e.message });
+      }
+    }
+    return results;
+  }
+
+  // Coerces an uploaded record (CSV fields are strings) to the insert schema,
+  // unknown keys such as the primary key are dropped
+  function importRecord(value: Row): Row | string {
+    const record = Value.Clean(schemas.insert, Value.Convert(schemas.insert, value)) as Row;
+    if (insertCheck.Check(record)) return record;
+    const [first] = insertCheck.Errors(record);
+    return first ? `${first.instancePath.replace(/^\//, '') || 'record'} ${first.message}` : 'is invalid';
+  }
+
+  // Inserts an upload batch by batch, each in its own transaction, and emits
+  // NDJSON progress events. Records are only pulled from the upload while the
+  // previous batch is not being written, which pauses the request stream.
+  async function* importRecords(
+    client: PoolClient,
+    records: AsyncIterable<ParsedRecord>,
+    batchSize: number,
+    onInserted: () => Promise<void>
+  ): AsyncGenerator<string> {
+    const event = (data: Record<string, unknown>) => JSON.stringify(data) + '\n';
+    const totals = { received: 0, inserted: 0, rejected: 0 };
+    let batch: { line: number; record: Row }[] = [];
+
+    async function* flush() {
+      if (batch.length === 0) return;
+      await client.query('BEGIN');
+      let results: BulkItem[];
+      try {
+        results = await insertEach(client, batch.map(b => b.record));
+        await client.query('COMMIT');
+      } catch (e) {
+        await client.query('ROLLBACK');
+        throw e;
+      }
+      for (const r of results) {
+        if (r.status === 'created') {
+          totals.inserted++;
+        } else {
+          totals.rejected++;
+          yield event({ event: 'rejected', line: batch[r.index].line, error: r.error });
+        }
+      }
+      batch = [];
+      yield event({ event: 'progress', ...totals });
+    }
+
+    try {
+      for await (const parsed of records) {
+        totals.received++;
+        const record = parsed.value ? importRecord(parsed.value) : parsed.error!;
+        if (typeof record === 'string') {
+          totals.rejected++;
+          yield event({ event: 'rejected', line: parsed.line, error: record });
+          continue;
+        }
+        batch.push({ line: parsed.line, record });
+        if (batch.length >= batchSize) yield* flush();
+      }
+      yield* flush();
+      yield event({ event: 'done', ...totals });
+    } catch (e) {
+      // Headers are long gone, the failure can only be reported in the stream
+      yield event({ event: 'error', error: (e as Error).message, ...totals });
+    } finally {
+      if (totals.inserted > 0) await onInserted();
+    }
+  }
+
+  // UPDATE for the columns present in `body`, `replace` resets the others to their default
+  function updateStatement(id: number, body: Row, replace: boolean): [string, unknown[]] {
+    const values: unknown[] = [];
+    const assignments: string[] = [];
+    for (const c of writable) {
+      if (body[c.key] !== undefined) {
+        values.push(body[c.key]);
+        assignments.push(`${c.name} = $${values.length}`);
+      } else if (replace) {
+        assignments.push(`${c.name} = DEFAULT`);
+      }
+    }
+    // Body held only unknown fields (stripped by validation): no-op update that still 404s/returns the row
+    if (assignments.length === 0) assignments.push(`${pk.name} = ${pk.name}`);
+    values.push(id);
+    return [`UPDATE ${table} SET ${assignments.join(', ')} WHERE ${pk.name} = $${values.length} RETURNING ${returning}`, values];
+  }
+
+  // Set first on every write: until it expires, cache fills read the primary,
+  // a lagging replica would put the old rows back for the whole TTL
+  const writtenKey = `${def.name}:written`;
+  const writtenTtl = Math.max(1, Math.ceil(config.db.readYourWritesMs / 1000));
+
+  async function invalidate(cache: CacheUtils, ids: number[] = []) {
+    if (hasReplicas()) await cache.set(writtenKey, Date.now(), writtenTtl);
+    await Promise.all([
+      ...ids.map(id => cache.del(cache.generateKey(def.name, 'id', id))),
+      // A new generation instead of deleting the pages: no SCAN over the keyspace on every write
+      cache.bumpGeneration(`${def.name}:list`),
+      ...(def.cache?.invalidates || []).map(key => cache.del(key))
+    ]);
+  }
+
+  async function fillTarget(cache: CacheUtils): Promise<'read' | 'fresh'> {
+    return hasReplicas() && await cache.exists(writtenKey) ? 'fresh' : 'read';
+  }
+
+  const routes: FastifyPluginAsyncTypebox = async (fastify) => {
+    const notFound = { error: `${def.label} not found` };
+
+    // READ - Single row, cached
+    fastify.get(`/${def.name}/:id`, {
+      schema: {
+        tags,
+        summary: `Get a ${def.label}`,
+        params: def.getParams ?? IdParams,
+        response: { 200: schemas.row, 400: ErrorResponse, 404: ErrorResponse }
+      }
+    }, async (request, reply) => {
+      const { id } = request.params as IdParams;
+
+      const row = await reply.cached(fastify.cache.generateKey(def.name, 'id', id), async () => {
+        const res = await withClient(reply, client => client.query(sql.get, [id]), await fillTarget(fastify.cache));
+        return res.rows[0] ?? null;
+      }, rowTtl);
+
+      if (!row) return reply.code(404).send(notFound);
+      return row;
+    });
+
+    // READ ALL - Keyset pagination with sort and filters, cached per query
+    fastify.get(`/${def.name}`, {
+      schema: {
+        tags,
+        summary: `List ${def.label} rows`,
+        description: 'Follow `next`/`prev` to page through results. Filter with `column[op]=value`, ' +
+          'e.g. `id[gte]=10`; text columns also support `contains` and `startsWith`.',
+        querystring: list.query,
+        response: { 200: list.page, 400: ErrorResponse }
+      }
+    }, async (request, reply) => {
+      const query = request.query as Record<string, unknown>;
+      const plan = planList(table, returning, columns, query);
+      if (!plan) {
+        return reply.code(400).send({
+          error: 'Invalid querystring',
+          details: [{ field: 'querystring.cursor', message: 'is not a cursor for this sort' }]
+        });
+      }
+
+      const path = request.routeOptions.url ?? `/${def.name}`;
+      const generation = await fastify.cache.generation(`${def.name}:list`);
+      return await reply.cached(fastify.cache.generateKey(def.name, 'list', `v${generation}`, queryHash(query)), async () => {
+        return await withClient(reply, async (client) => {
+          const res = await client.query(plan.text, plan.values);
+          const page = pageOf(res.rows, plan, columns, query, params => `${path}?${params}`);
+          if (query.count) {
+            const count = await client.query(plan.countText, plan.countValues);
+            page.total = count.rows[0].total;
+          }
+          return page;
+        }, await fillTarget(fastify.cache));
+      }, listTtl);
+    });
+
+    // CREATE
+    fastify.post(`/${def.name}`, {
+      config: { role: 'write', idempotent: true },
+      schema: {
+        tags,
+        summary: `Insert a ${def.label}`,
+        body: schemas.insert,
+        response: { 201: schemas.row, 400: ErrorResponse }
+      }
+    }, async (request, reply) => {
+      const [text, values] = insertStatement(request.body as Row);
+      const res = await withClient(reply, client => client.query(text, values));
+      await invalidate(fastify.cache);
+      return reply.code(201).send(res.rows[0]);
+    });
+
+    // UPDATE - Full replacement (PUT) and partial update (PATCH)
+    for (const [method, replace] of [['put', true], ['patch', false]] as const) {
+      fastify[method](`/${def.name}/:id`, {
+        config: { role: 'write' },
+        schema: {
+          tags,
+          summary: replace ? `Replace a ${def.label}` : `Update fields of a ${def.label}`,
+          params: IdParams,
+          body: replace ? schemas.insert : schemas.patch,
+          response: { 200: schemas.row, 400: ErrorResponse, 404: ErrorResponse }
+        }
+      }, async (request, reply) => {
+        const { id } = request.params as IdParams;
+        const [text, values] = updateStatement(id, request.body as Row, replace);
+        const res = await withClient(reply, client => client.query(text, values));
+
+        if (res.rows.length === 0) return reply.code(404).send(notFound);
+
+        await invalidate(fastify.cache, [id]);
+        return res.rows[0];
+      });
+    }
+
+    // DELETE
+    fastify.delete(`/${def.name}/:id`, {
+      config: { role: 'write' },
+      schema: {
+        tags,
+        summary: `Delete a ${def.label}`,
+        params: IdParams,
+        response: { 400: ErrorResponse, 404: ErrorResponse }
+      }
+    }, async (request, reply) => {
+      const { id } = request.params as IdParams;
+      const res = await withClient(reply, client => client.query(sql.delete, [id]));
+
+      if (res.rows.length === 0) return reply.code(404).send(notFound);
+
+      await invalidate(fastify.cache, [id]);
+      return reply.code(204).send();
+    });
+
+    // EXPORT - Streams the whole table from a server-side cursor
+    fastify.get(`/${def.name}/export`, {
+      config: { priority: 'low', rateLimit: config.rateLimit.heavy },
+      schema: {
+        tags,
+        summary: `Stream all ${def.label} rows as NDJSON or CSV`,
+        querystring: ExportQuery
+      }
+    }, async (request, reply) => {
+      const { format } = request.query;
+      const stream = await withStreamingClient(reply, client => Readable.from(
+        serializeRows(cursorRows(client, sql.export, EXPORT_FETCH_SIZE), format, columns.map(c => c.key))
+      ), 'read');
+
+      return reply
+        .type(CONTENT_TYPES[format])
+        .header('Content-Disposition', `attachment; filename="${def.name}.${format}"`)
+        .send(stream);
+    });
+
+    // IMPORT - Uploads are handed to the route as a stream, not buffered
+    fastify.addContentTypeParser(Object.values(CONTENT_TYPES), (_request, payload, done) => done(null, payload));
+
+    fastify.post(`/${def.name}/import`, {
+      config: { priority: 'low', rateLimit: config.rateLimit.heavy, role: 'write' },
+      schema: {
+        tags,
+        summary: `Load ${def.label} rows from an NDJSON or CSV upload`,
+        description: 'Send `Content-Type: application/x-ndjson` or `text/csv` (header row first). ' +
+          'The response is an NDJSON stream of `rejected`, `progress` and a final `done` event. ' +
+          'Primary key values in the upload are ignored.',
+        querystring: bulk.importQuery
+      }
+    }, async (request, reply) => {
+      const { batchSize } = request.query as { batchSize: number };
+      const format = (Object.keys(CONTENT_TYPES) as TransferFormat[])
+        .find(f => request.headers['content-type']?.startsWith(CONTENT_TYPES[f]));
+      if (!format || !(request.body instanceof Readable)) {
+        return reply.code(415).send({ error: `Upload must be ${Object.values(CONTENT_TYPES).join(' or ')}` });
+      }
+
+      const input = request.body;
+      const stream = await withStreamingClient(reply, client => Readable.from(
+        importRecords(client, parseRecords(input, format), batchSize, () => invalidate(fastify.cache))
+      ));
+      return reply.type(CONTENT_TYPES.ndjson).send(stream);
+    });
+
+    // BULK INSERT - One multi-row statement
+    fastify.post(`/${def.name}/bulk`, {
+      config: { priority: 'low', rateLimit: config.rateLimit.heavy, role: 'write', idempotent: true },
+      schema: {
+        tags,
+        summary: `Insert many ${def.label} rows`,
+        querystring: BulkQuery,
+        body: bulk.insert,
+        response: { 201: bulk.result, 207: bulk.result, 400: ErrorResponse }
+      }
+    }, async (request, reply) => {
+      const { mode } = request.query;
+      const records = request.body as Row[];
+
+      const results = await withTransaction(reply, async (client): Promise<BulkItem[]> => {
+        if (mode === 'partial') return await insertEach(client, records);
+        const [text, values] = insertManyStatement(records);
+        const res = await client.query(text, values);
+        return res.rows.map((row, index) => ({ index, id: row[pk.key], status: 'created', row }));
+      });
+
+      const report = bulkReport(mode, results);
+      if (report.succeeded > 0) await invalidate(fastify.cache);
+      return reply.code(report.failed > 0 ? 207 : 201).send(report);
+    });
+
+    // BULK DELETE - One DELETE ... WHERE id = ANY($1)
+    fastify.post(`/${def.name}/bulk-delete`, {
+      config: { priority: 'low', rateLimit: config.rateLimit.heavy, role: 'admin', idempotent: true },
+      schema: {
+        tags,
+        summary: `Delete many ${def.label} rows`,
+        description: 'In atomic mode nothing is deleted (404) unless every id exists. A repeated id is reported once, at its first position.',
+        querystring: BulkQuery,
+        body: bulk.delete,
+        response: { 200: bulk.result, 207: bulk.result, 404: bulk.result, 400: ErrorResponse }
+      }
+    }, async (request, reply) => {
+      const { mode } = request.query;
+      const { ids } = request.body as { ids: number[] };
+      // Repeats would otherwise all count as deleted, the row goes only once
+      const firstIndex = new Map<number, number>();
+      ids.forEach((id, index) => firstIndex.has(id) || firstIndex.set(id, index));
+
+      const results = await withTransaction(reply, async (client): Promise<BulkItem[]> => {
+        const res = await client.query(sql.deleteMany, [[...firstIndex.keys()]]);
+        const deleted = new Set(res.rows.map(r => r.id));
+        const results: BulkItem[] = [...firstIndex].map(([id, index]) => ({
+          index, id, status: deleted.has(id) ? 'deleted' : 'not_found'
+        }));
+
+        if (mode === 'atomic' && deleted.size < firstIndex.size) {
+          return rollback(results.map(r => r.status === 'deleted' ? { ...r, status: 'rolled_back' as const } : r));
+        }
+        return results;
+      });
+
+      const report = bulkReport(mode, results);
+      if (report.succeeded > 0) {
+        await invalidate(fastify.cache, results.filter(r => r.status === 'deleted').map(r => r.id!));
+      }
+      const code = report.failed === 0 ? 200 : mode === 'atomic' ? 404 : 207;
+      return reply.code(code).send(report);
+    });
+  };
+
+  return { name: def.name, table: def.table, schemas, routes, invalidate, fillTarget };
+}
@@ -0,0 +1,136 @@
+import { createInterface } from 'node:readline';
+import type { Readable } from 'node:stream';
+import type { PoolClient } from 'pg';
+
+export type TransferFormat = 'ndjson' | 'csv';
+
+export const CONTENT_TYPES: Record<TransferFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv'
+};
+
+type Row = Record<string, unknown>;
+
+// Rows of `text` through a server-side cursor, `fetchSize` at a time. The next
+// FETCH only runs once the consumer asked for more, so a slow client holds
+// one connection instead of the whole table in memory.
+export async function* cursorRows(client: PoolClient, text: string, fetchSize: number): AsyncGenerator<Row> {
+  await client.query('BEGIN READ ONLY');
+  try {
+    await client.query(`DECLARE export_cursor NO SCROLL CURSOR FOR ${text}`);
+    while (true) {
+      const res = await client.query(`FETCH ${fetchSize} FROM export_cursor`);
+      yield* res.rows;
+      if (res.rows.length < fetchSize) break;
+    }
+  } finally {
+    await client.query('COMMIT');
+  }
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// NDJSON lines or CSV with a header row of `columns`
+export async function* serializeRows(rows: AsyncIterable<Row>, format: TransferFormat, columns: string[]): AsyncGenerator<string> {
+  if (format === 'csv') {
+    yield columns.map(csvField).join(',') + '\n';
+    for await (const row of rows) {
+      yield columns.map(c => csvField(row[c])).join(',') + '\n';
+    }
+    return;
+  }
+  for await (const row of rows) {
+    yield JSON.stringify(row) + '\n';
+  }
+}
+
+// Splits one CSV record, null if it ends inside a quoted field (continues on the next line)
+function splitCsv(record: string): string[] | null {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < record.length; i++) {
+    const ch = record[i];
+    if (quoted) {
+      if (ch === '"' && record[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) return null;
+  fields.push(field);
+  return fields;
+}
+
+export interface ParsedRecord {
+  // 1-based line of the upload the record starts on
+  line: number;
+  value?: Row;
+  error?: string;
+}
+
+// Records of an NDJSON or CSV upload as they arrive. Blank lines are skipped,
+// empty CSV fields are left out so column defaults apply.
+export async function* parseRecords(input: Readable, format: TransferFormat): AsyncGenerator<ParsedRecord> {
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  let lineNo = 0;
+  let header: string[] | null = null;
+  let pending = '';
+  let pendingLine = 0;
+
+  for await (const text of lines) {
+    lineNo++;
+
+    if (format === 'ndjson') {
+      if (!text.trim()) continue;
+      try {
+        const value = JSON.parse(text);
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          yield { line: lineNo, error: 'must be a JSON object' };
+        } else {
+          yield { line: lineNo, value };
+        }
+      } catch {
+        yield { line: lineNo, error: 'is not valid JSON' };
+      }
+      continue;
+    }
+
+    if (!pending && !text.trim()) continue;
+    if (!pending) pendingLine = lineNo;
+    const record = pending ? `${pending}\n${text}` : text;
+    const fields = splitCsv(record);
+    if (!fields) {
+      pending = record;
+      continue;
+    }
+    pending = '';
+
+    if (!header) {
+      header = fields.map(f => f.trim());
+      continue;
+    }
+    if (fields.length !== header.length) {
+      yield { line: pendingLine, error: `has ${fields.length} fields, header has ${header.length}` };
+      continue;
+    }
+    const value: Row = {};
+    header.forEach((key, i) => {
+      if (fields[i] !== '') value[key] = fields[i];
+    });
+    yield { line: pendingLine, value };
+  }
+
+  if (pending) yield { line: pendingLine, error: 'has an unterminated quoted field' };
+}
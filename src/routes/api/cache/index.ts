@@ -0,0 +1,102 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { ErrorResponse } from '../../../schemas/common.js';
+import {
+  CacheClearBody,
+  CacheClearResponse,
+  CacheInfoResponse,
+  CacheStatsQuery,
+  CacheStatsResponse
+} from '../../../schemas/cache.js';
+
+// Cache management routes, mounted at /api/cache by autoload
+const cacheAdmin: FastifyPluginAsyncTypebox = async (fastify) => {
+
+  // Connection info - which backend is active and why
+  fastify.get('/info', {
+    config: { role: 'admin' },
+    schema: {
+      tags: ['cache'],
+      summary: 'Active cache backend and why the mock is in use',
+      response: { 200: CacheInfoResponse }
+    }
+  }, async () => {
+    return {
+      ...fastify.cache.info(),
+      timestamp: new Date().toISOString()
+    };
+  });
+
+  // Hit/miss/error counters per key prefix, ?probe=true also times a set/get/del round-trip
+  fastify.get('/stats', {
+    config: { role: 'admin' },
+    schema: {
+      tags: ['cache'],
+      summary: 'Hit/miss/error counters per key prefix for the answering worker',
+      querystring: CacheStatsQuery,
+      response: { 200: CacheStatsResponse, 400: ErrorResponse }
+    }
+  }, async (request) => {
+    const { probe, reset } = request.query;
+    const stats = fastify.cache.stats();
+
+    let latency;
+    if (probe) {
+      const key = fastify.cache.generateKey('cache-probe', process.pid, Date.now());
+
+      const s0 = process.hrtime.bigint();
+      await fastify.cache.set(key, { ok: true }, 10);
+      const setMs = Number(process.hrtime.bigint() - s0) / 1e6;
+
+      const g0 = process.hrtime.bigint();
+      await fastify.cache.get(key);
+      const getMs = Number(process.hrtime.bigint() - g0) / 1e6;
+
+      const d0 = process.hrtime.bigint();
+      await fastify.cache.del(key);
+      const delMs = Number(process.hrtime.bigint() - d0) / 1e6;
+
+      latency = { set: setMs.toFixed(2), get: getMs.toFixed(2), del: delMs.toFixed(2) };
+    }
+
+    if (reset) {
+      fastify.cache.resetStats();
+    }
+
+    return {
+      mode: fastify.cache.info().mode,
+      worker: process.pid,
+      ...stats,
+      latency,
+      timestamp: new Date().toISOString()
+    };
+  });
+
+  // Clear by prefix (`{ "prefix": "world" }`) or glob (`{ "pattern": "world:list:*" }`), everything by default
+  fastify.post('/clear', {
+    config: { role: 'admin' },
+    schema: {
+      tags: ['cache'],
+      summary: 'Delete cached keys by prefix or glob pattern',
+      body: CacheClearBody,
+      response: { 200: CacheClearResponse, 400: ErrorResponse }
+    },
+    // A bare `POST /api/cache/clear` (no body) clears everything
+    preValidation: async (request) => {
+      request.body ??= {};
+    }
+  }, async (request) => {
+    const { prefix, pattern } = request.body;
+
+    const match = pattern ?? (prefix ? `${prefix}:*` : '*');
+    const cleared = await fastify.cache.clear(match);
+
+    return {
+      mode: fastify.cache.info().mode,
+      pattern: match,
+      cleared,
+      timestamp: new Date().toISOString()
+    };
+  });
+};
+
+export default cacheAdmin;
@@ -0,0 +1,158 @@
+import { monitorEventLoopDelay } from 'node:perf_hooks';
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import type { Pool } from 'pg';
+import { config } from '../config.js';
+import { namedPools, pool as primary } from '../db/connection.js';
+import { isDraining } from '../lifecycle.js';
+import { LiveResponse, ReadyResponse } from '../schemas/monitoring.js';
+
+type Status = 'ok' | 'degraded' | 'fail';
+
+interface Check {
+  status: Status;
+  latencyMs?: number;
+  error?: string;
+  [detail: string]: unknown;
+}
+
+const SEVERITY: Record<Status, number> = { ok: 0, degraded: 1, fail: 2 };
+
+const round = (ms: number) => Math.round(ms * 100) / 100;
+
+// How long `fn` took, rejects once it takes longer than HEALTH_CHECK_TIMEOUT_MS
+async function timed(fn: () => Promise<unknown>): Promise<number> {
+  const timeoutMs = config.health.checkTimeoutMs;
+  const t0 = process.hrtime.bigint();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      fn(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`timed out after ${timeoutMs}ms`)), timeoutMs);
+      })
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+  return round(Number(process.hrtime.bigint() - t0) / 1e6);
+}
+
+// A failing replica only degrades: reads fall back to the primary
+async function checkPool(pool: Pool, critical: boolean): Promise<Check> {
+  const failed: Status = critical ? 'fail' : 'degraded';
+  const usage = { total: pool.totalCount, idle: pool.idleCount, waiting: pool.waitingCount };
+  try {
+    const latencyMs = await timed(() => pool.query('SELECT 1'));
+    if (usage.waiting > config.health.poolWaitingMax) {
+      return { status: failed, latencyMs, ...usage, error: `${usage.waiting} checkouts waiting (max ${config.health.poolWaitingMax})` };
+    }
+    return { status: 'ok', latencyMs, ...usage };
+  } catch (e: any) {
+    return { status: failed, ...usage, error: e.message };
+  }
+}
+
+const health: FastifyPluginAsyncTypebox = async (fastify) => {
+
+  // Delay between timers firing and running, a busy worker answers late no matter what its dependencies do
+  const loopDelay = monitorEventLoopDelay({ resolution: 10 });
+  loopDelay.enable();
+  fastify.addHook('onClose', async () => loopDelay.disable());
+
+  // p99 since the previous readiness check
+  function checkEventLoop(): Check {
+    const lagMs = round(loopDelay.percentile(99) / 1e6);
+    loopDelay.reset();
+    const thresholdMs = config.health.eventLoopLagMs;
+    return lagMs > thresholdMs
+      ? { status: 'fail', lagMs, thresholdMs, error: `p99 event loop lag ${lagMs}ms over ${thresholdMs}ms` }
+      : { status: 'ok', lagMs, thresholdMs };
+  }
+
+  // Requests still work without a cache, so it only degrades
+  async function checkCache(): Promise<Check> {
+    const info = fastify.cache.info();
+    const details = { mode: info.mode, provider: info.provider };
+    if (!fastify.cacheBackend) {
+      // Mock mode: off on purpose, or the fallback after the backend failed to connect
+      return config.cache.backend === 'none'
+        ? { status: 'ok', ...details }
+        : { status: 'degraded', ...details, error: info.reason ?? 'cache backend unavailable' };
+    }
+    const backend = fastify.cacheBackend;
+    try {
+      return { status: 'ok', ...details, latencyMs: await timed(() => backend.ping()) };
+    } catch (e: any) {
+      return { status: 'degraded', ...details, error: e.message };
+    }
+  }
+
+  async function readiness() {
+    const timestamp = new Date().toISOString();
+    // Failing fast lets the load balancer move traffic away before the server stops accepting
+    if (isDraining()) {
+      return { status: 'fail' as Status, draining: true, timestamp, checks: {} };
+    }
+
+    const [pools, cache] = await Promise.all([
+      Promise.all(namedPools.map(({ pool }) => checkPool(pool, pool === primary))),
+      checkCache()
+    ]);
+    const checks: Record<string, Check> = {};
+    namedPools.forEach(({ name }, i) => {
+      checks[`db:${name}`] = pools[i];
+    });
+    checks.cache = cache;
+    checks.eventLoop = checkEventLoop();
+
+    const status = Object.values(checks)
+      .map(c => c.status)
+      .reduce((worst, s) => (SEVERITY[s] > SEVERITY[worst] ? s : worst), 'ok' as Status);
+    return { status, draining: false, timestamp, checks };
+  }
+
+  // ========== HEALTH ROUTES ==========
+
+  // Liveness: the process answers, dependencies are not checked
+  fastify.get('/health/live', {
+    config: { priority: 'critical' },
+    schema: {
+      tags: ['monitoring'],
+      summary: 'Liveness: the worker is running and answering',
+      response: { 200: LiveResponse }
+    }
+  }, async (_req, reply) => {
+    reply.header('Cache-Control', 'no-store');
+    return {
+      status: 'ok' as const,
+      pid: process.pid,
+      uptimeSeconds: Math.round(process.uptime()),
+      timestamp: new Date().toISOString()
+    };
+  });
+
+  const readySchema = {
+    tags: ['monitoring'],
+    summary: 'Readiness: database pools, cache backend, pool saturation and event-loop lag',
+    response: { 200: ReadyResponse, 503: ReadyResponse }
+  };
+
+  // Readiness: 200 when ok or degraded, 503 when failing or draining
+  fastify.get('/health/ready', { config: { priority: 'critical' }, schema: readySchema }, async (_req, reply) => {
+    const result = await readiness();
+    reply.header('Cache-Control', 'no-store').code(result.status === 'fail' ? 503 : 200);
+    return result;
+  });
+
+  // Kept for existing health checks, same as /health/ready
+  fastify.get('/health', {
+    config: { priority: 'critical' },
+    schema: { ...readySchema, summary: 'Alias of /health/ready' }
+  }, async (_req, reply) => {
+    const result = await readiness();
+    reply.header('Cache-Control', 'no-store').code(result.status === 'fail' ? 503 : 200);
+    return result;
+  });
+};
+
+export default health;
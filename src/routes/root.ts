@@ -1,22 +1,13 @@
-import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { withClient, withReadClient } from '../db/client.js';
 import { pool } from '../db/connection.js';
+import { recordDbTime } from '../db/timing.js';
+import { fortuneResource, worldResource } from '../resources/index.js';
+import { CountQuery } from '../schemas/benchmark.js';
+import { FortuneList } from '../schemas/fortune.js';
+import { WorldList } from '../schemas/world.js';
 
-const root: FastifyPluginAsync = async (fastify: FastifyInstance) => {
-
-  // ---- Global timing hooks (total server time) ----
-  fastify.addHook('onRequest', (req, _reply, done) => {
-    (req as any)._t0 = process.hrtime.bigint();
-    done();
-  });
-
-  fastify.addHook('onSend', (req, reply, payload, done) => {
-    const t0 = (req as any)._t0;
-    if (t0) {
-      const totalMs = Number(process.hrtime.bigint() - t0) / 1e6;
-      reply.header('X-Server-Time', totalMs.toFixed(2));
-    }
-    done(null, payload);
-  });
+const root: FastifyPluginAsyncTypebox = async (fastify) => {
 
   // Helper function for random IDs
   function randId() {
@@ -28,27 +19,41 @@ const root: FastifyPluginAsync = async (fastify: FastifyInstance) => {
   // They test specific scenarios: parallel queries and transactional updates
   
   // Multiple queries (N random rows) - parallel selects
-  fastify.get('/queries', async (request, reply) => {
-    let n = Number((request.query as any).count) || 1;
+  fastify.get('/queries', {
+    schema: {
+      tags: ['benchmark'],
+      summary: 'Fetch N random world rows with parallel selects',
+      querystring: CountQuery,
+      response: { 200: WorldList }
+    }
+  }, async (request, reply) => {
+    let n = Number(request.query.count) || 1;
     if (n < 1) n = 1;
     if (n > 500) n = 500;
     
-    const q0 = process.hrtime.bigint();
+    // A checkout per select so they run in parallel, each falls back to the primary if its replica is down
     const promises = Array.from({ length: n }, () =>
-      pool.query('SELECT id, "randomNumber" FROM world WHERE id = $1', [randId()])
-        .then(r => r.rows[0])
+      withReadClient(reply, async (client) => {
+        const { rows } = await client.query('SELECT id, "randomNumber" FROM world WHERE id = $1', [randId()]);
+        return rows[0];
+      })
     );
     const results = await Promise.all(promises);
-    const queryMs = Number(process.hrtime.bigint() - q0) / 1e6;
     
-    reply.header('X-DB-Time', queryMs.toFixed(2))
-         .header('X-Query-Count', n.toString());
+    reply.header('X-Query-Count', n.toString());
     return results;
   });
 
   // Updates (read N then write N) inside one transaction
-  fastify.get('/updates', async (request, reply) => {
-    let n = Number((request.query as any).count) || 1;
+  fastify.get('/updates', {
+    schema: {
+      tags: ['benchmark'],
+      summary: 'Read N random world rows, then update them in one transaction',
+      querystring: CountQuery,
+      response: { 200: WorldList }
+    }
+  }, async (request, reply) => {
+    let n = Number(request.query.count) || 1;
     if (n < 1) n = 1;
     if (n > 500) n = 500;
 
@@ -64,37 +69,62 @@ const root: FastifyPluginAsync = async (fastify: FastifyInstance) => {
     );
     const readMs = Number(process.hrtime.bigint() - readStart) / 1e6;
 
-    // Phase 2: Update in transaction
+    // Phase 2: One set-based UPDATE in a transaction. A row picked twice gets
+    // one new value so the response matches what was written.
+    const newValues = new Map<number, number>();
+    for (const r of selected) {
+      if (!newValues.has(r.id)) newValues.set(r.id, randId());
+      r.randomNumber = newValues.get(r.id);
+    }
+
     const updateStart = process.hrtime.bigint();
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
-      for (const r of selected) {
-        const newVal = randId();
-        await client.query('UPDATE world SET "randomNumber" = $1 WHERE id = $2', [newVal, r.id]);
-        r.randomNumber = newVal;
-      }
+      await client.query(
+        'UPDATE world SET "randomNumber" = v."randomNumber" ' +
+        'FROM unnest($1::int[], $2::int[]) AS v(id, "randomNumber") WHERE world.id = v.id',
+        [[...newValues.keys()], [...newValues.values()]]
+      );
       await client.query('COMMIT');
-      const updateMs = Number(process.hrtime.bigint() - updateStart) / 1e6;
-      const totalMs = Number(process.hrtime.bigint() - totalStart) / 1e6;
-      
-      reply.header('X-Read-Time', readMs.toFixed(2))
-           .header('X-Update-Time', updateMs.toFixed(2))
-           .header('X-Total-Time', totalMs.toFixed(2))
-           .header('X-Update-Count', n.toString());
-      
-      return selected;
     } catch (e) {
       await client.query('ROLLBACK');
       throw e;
     } finally {
       client.release();
     }
+    recordDbTime(reply, readMs + Number(process.hrtime.bigint() - updateStart) / 1e6);
+
+    // Updated rows must not be served stale from /world/:id or the list routes.
+    // After the transaction: the update is committed whether or not this fails.
+    await worldResource.invalidate(fastify.cache, selected.map(r => r.id));
+    const updateMs = Number(process.hrtime.bigint() - updateStart) / 1e6;
+    const totalMs = Number(process.hrtime.bigint() - totalStart) / 1e6;
+
+    reply.header('X-Read-Time', readMs.toFixed(2))
+         .header('X-Update-Time', updateMs.toFixed(2))
+         .header('X-Total-Time', totalMs.toFixed(2))
+         .header('X-Update-Count', n.toString());
+
+    return selected;
   });
 
-  // Fortunes with sorting
-  fastify.get('/fortunes', async () => {
-    const { rows } = await pool.query('SELECT id, message FROM fortune');
+  // Fortunes with sorting (the table is cached, the extra fortune and the sort stay per-request)
+  fastify.get('/fortunes', {
+    schema: {
+      tags: ['benchmark'],
+      summary: 'All fortunes plus one added at request time, sorted by message',
+      response: { 200: FortuneList }
+    }
+  }, async (_req, reply) => {
+    const cachedRows = await reply.cached(fastify.cache.generateKey('fortune', 'all'), async () => {
+      // Right after a fortune write the fill reads the primary, see Resource.fillTarget
+      return await withClient(reply, async (client) => {
+        const { rows } = await client.query('SELECT id, message FROM fortune');
+        return rows as { id: number; message: string }[];
+      }, await fortuneResource.fillTarget(fastify.cache));
+    }, 300);
+    const rows = [...cachedRows];
     rows.push({ id: 0, message: 'Additional fortune added at request time.' });
     rows.sort((a, b) => a.message.localeCompare(b.message));
     return rows;
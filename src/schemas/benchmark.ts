@@ -0,0 +1,28 @@
+import { Type, Static } from 'typebox';
+
+// TechEmpower requires lenient parsing: missing or non-numeric counts mean 1, the rest is clamped to 1..500
+export const CountQuery = Type.Object({
+  count: Type.Optional(Type.String({ description: 'Number of rows (1-500), non-numeric values count as 1' }))
+});
+
+export const LoadTestQuery = Type.Object({
+  concurrency: Type.Integer({ minimum: 1, maximum: 50, default: 10 }),
+  iterations: Type.Integer({ minimum: 1, maximum: 1000, default: 100 }),
+  delay: Type.Integer({ minimum: 0, default: 0, description: 'Milliseconds to sleep between queries' })
+});
+
+export const LoadTestResult = Type.Object({
+  message: Type.String(),
+  concurrency: Type.Integer(),
+  iterations: Type.Integer(),
+  totalQueries: Type.Integer(),
+  totalTimeMs: Type.String(),
+  avgTimePerQuery: Type.String(),
+  resultsCount: Type.Integer(),
+  delayBetweenQueries: Type.String(),
+  estimatedDuration: Type.String(),
+  timestamp: Type.String({ format: 'date-time' })
+});
+
+export type CountQuery = Static<typeof CountQuery>;
+export type LoadTestQuery = Static<typeof LoadTestQuery>;
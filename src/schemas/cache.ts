@@ -0,0 +1,65 @@
+import { Type, Static } from 'typebox';
+
+const CounterSnapshot = Type.Object({
+  hits: Type.Integer(),
+  misses: Type.Integer(),
+  errors: Type.Integer(),
+  sets: Type.Integer(),
+  deletes: Type.Integer(),
+  stale: Type.Integer(),
+  coalesced: Type.Integer(),
+  hitRatio: Type.Union([Type.Number(), Type.Null()])
+});
+
+const TierCounters = Type.Object({
+  hits: Type.Integer(),
+  misses: Type.Integer()
+});
+
+export const CacheInfoResponse = Type.Object({
+  mode: Type.String({ description: 'memory, redis, upstash or mock' }),
+  provider: Type.String(),
+  host: Type.Union([Type.String(), Type.Null()]),
+  reason: Type.Union([Type.String(), Type.Null()]),
+  l1: Type.Object({
+    enabled: Type.Boolean(),
+    ttlSeconds: Type.Union([Type.Integer(), Type.Null()])
+  }),
+  format: Type.Union([Type.String(), Type.Null()]),
+  since: Type.String({ format: 'date-time' }),
+  timestamp: Type.String({ format: 'date-time' })
+});
+
+export const CacheStatsQuery = Type.Object({
+  probe: Type.Optional(Type.Boolean({ description: 'Also time a set/get/del round-trip' })),
+  reset: Type.Optional(Type.Boolean({ description: 'Zero the counters after reading them' }))
+});
+
+export const CacheStatsResponse = Type.Object({
+  mode: Type.String(),
+  worker: Type.Integer(),
+  since: Type.String({ format: 'date-time' }),
+  total: CounterSnapshot,
+  prefixes: Type.Record(Type.String(), CounterSnapshot),
+  tiers: Type.Object({ l1: TierCounters, l2: TierCounters }),
+  latency: Type.Optional(Type.Object({
+    set: Type.String(),
+    get: Type.String(),
+    del: Type.String()
+  })),
+  timestamp: Type.String({ format: 'date-time' })
+});
+
+export const CacheClearBody = Type.Object({
+  prefix: Type.Optional(Type.String({ minLength: 1, pattern: '\\S', description: 'Clears `{prefix}:*`' })),
+  pattern: Type.Optional(Type.String({ minLength: 1, pattern: '\\S', description: 'Redis glob, takes precedence over prefix' }))
+});
+
+export const CacheClearResponse = Type.Object({
+  mode: Type.String(),
+  pattern: Type.String(),
+  cleared: Type.Integer(),
+  timestamp: Type.String({ format: 'date-time' })
+});
+
+export type CacheClearBody = Static<typeof CacheClearBody>;
@@ -0,0 +1,39 @@
+import { Type, Static } from 'typebox';
+
+// Shape of every 4xx/5xx body, validation failures also list the offending fields
+export const ErrorResponse = Type.Object({
+  error: Type.String(),
+  details: Type.Optional(Type.Array(Type.Object({
+    field: Type.String(),
+    message: Type.String()
+  })))
+});
+
+export const IdParams = Type.Object({
+  id: Type.Integer({ minimum: 1 })
+});
+
+// TechEmpower routes only address the 10,000 seeded world rows
+export const BenchmarkIdParams = Type.Object({
+  id: Type.Integer({ minimum: 1, maximum: 10000 })
+});
+
+// Non-empty and not just whitespace
+export const NonBlankString = Type.String({ minLength: 1, pattern: '\\S' });
+
+// atomic: any failed or missing item rolls back the whole batch
+// partial: successful items are committed, failures are reported per item
+export const BulkMode = Type.Enum(['atomic', 'partial'], { default: 'atomic' });
+
+export const BulkQuery = Type.Object({
+  mode: BulkMode
+});
+
+export const ExportQuery = Type.Object({
+  format: Type.Enum(['ndjson', 'csv'], { default: 'ndjson' })
+});
+
+export type ErrorResponse = Static<typeof ErrorResponse>;
+export type IdParams = Static<typeof IdParams>;
+export type BulkQuery = Static<typeof BulkQuery>;
+export type ExportQuery = Static<typeof ExportQuery>;
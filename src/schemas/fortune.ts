@@ -0,0 +1,9 @@
+import { fortune } from '../db/schema.js';
+import { tableSchemas } from './table.js';
+
+const schemas = tableSchemas(fortune);
+
+export const Fortune = schemas.row;
+export const FortuneInsert = schemas.insert;
+export const FortunePatch = schemas.patch;
+export const FortuneList = schemas.list;
@@ -0,0 +1,36 @@
+import { Type } from 'typebox';
+
+export const MetricsResponse = Type.String({ description: 'Prometheus text exposition format' });
+
+export const LiveResponse = Type.Object({
+  status: Type.Literal('ok'),
+  pid: Type.Integer(),
+  uptimeSeconds: Type.Number(),
+  timestamp: Type.String({ format: 'date-time' })
+});
+
+// ok: fine, degraded: works with reduced capacity (replica or cache down), fail: not ready
+export const CheckStatus = Type.Enum(['ok', 'degraded', 'fail']);
+
+export const DependencyCheck = Type.Object({
+  status: CheckStatus,
+  latencyMs: Type.Optional(Type.Number()),
+  error: Type.Optional(Type.String())
+}, { additionalProperties: true });
+
+export const ReadyResponse = Type.Object({
+  status: CheckStatus,
+  draining: Type.Boolean(),
+  timestamp: Type.String({ format: 'date-time' }),
+  checks: Type.Record(Type.String(), DependencyCheck)
+});
+
+export const ApiInfo = Type.Object({
+  message: Type.String(),
+  timestamp: Type.String({ format: 'date-time' }),
+  status: Type.String(),
+  backend: Type.String()
+});
+
+// Effective settings from src/config.ts, secrets masked
+export const ConfigResponse = Type.Object({}, { additionalProperties: true });
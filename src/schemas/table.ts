@@ -0,0 +1,161 @@
+import { Type, TSchema } from 'typebox';
+import { getTableColumns } from 'drizzle-orm';
+import type { AnyPgColumn, PgTable } from 'drizzle-orm/pg-core';
+import { BulkMode, NonBlankString } from './common.js';
+
+// Values Postgres accepts for each integer column type, bigint is read as a JS number
+const INTEGER_RANGES: Record<string, { minimum: number; maximum: number }> = {
+  PgSmallInt: { minimum: -32768, maximum: 32767 },
+  PgSmallSerial: { minimum: -32768, maximum: 32767 },
+  PgInteger: { minimum: -2147483648, maximum: 2147483647 },
+  PgSerial: { minimum: -2147483648, maximum: 2147483647 },
+  PgBigInt53: { minimum: Number.MIN_SAFE_INTEGER, maximum: Number.MAX_SAFE_INTEGER },
+  PgBigSerial53: { minimum: Number.MIN_SAFE_INTEGER, maximum: Number.MAX_SAFE_INTEGER }
+};
+
+// JSON type of a single column as it comes back from pg
+export function columnSchema(column: AnyPgColumn): TSchema {
+  switch (column.dataType) {
+    case 'number':
+      return column.columnType in INTEGER_RANGES ? Type.Integer(INTEGER_RANGES[column.columnType]) : Type.Number();
+    case 'boolean':
+      return Type.Boolean();
+    case 'date':
+      return Type.String({ format: 'date-time' });
+    case 'string':
+      return Type.String();
+    default:
+      return Type.Unknown();
+  }
+}
+
+// Required text columns reject empty and whitespace-only values on write
+function writeSchema(column: AnyPgColumn): TSchema {
+  return column.dataType === 'string' && column.notNull ? NonBlankString : columnSchema(column);
+}
+
+export interface TableSchemas {
+  row: TSchema;
+  list: TSchema;
+  insert: TSchema;
+  patch: TSchema;
+}
+
+// Filter operators accepted as `column[op]=value` on list routes, by column type
+export const FILTER_OPERATORS: Record<string, readonly string[]> = {
+  number: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'],
+  date: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'],
+  string: ['eq', 'ne', 'contains', 'startsWith'],
+  boolean: ['eq', 'ne']
+};
+
+export interface PageSize {
+  default: number;
+  max: number;
+}
+
+export interface ListSchemas {
+  query: TSchema;
+  page: TSchema;
+}
+
+export interface BulkSchemas {
+  insert: TSchema;
+  delete: TSchema;
+  result: TSchema;
+  importQuery: TSchema;
+}
+
+// Request/response schemas for a Drizzle table: primary keys are read-only,
+// NOT NULL columns without a default are required on insert
+export function tableSchemas(table: PgTable): TableSchemas {
+  const row: Record<string, TSchema> = {};
+  const insert: Record<string, TSchema> = {};
+
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    const schema = columnSchema(column);
+    row[key] = column.notNull ? schema : Type.Union([schema, Type.Null()]);
+
+    if (column.primary) continue;
+    const write = column.notNull ? writeSchema(column) : Type.Union([writeSchema(column), Type.Null()]);
+    insert[key] = column.notNull && !column.hasDefault ? write : Type.Optional(write);
+  }
+
+  const rowSchema = Type.Object(row);
+  const insertSchema = Type.Object(insert, { additionalProperties: false });
+
+  return {
+    row: rowSchema,
+    list: Type.Array(rowSchema),
+    insert: insertSchema,
+    patch: Type.Partial(insertSchema, { additionalProperties: false, minProperties: 1 })
+  };
+}
+
+// Querystring and response envelope for a keyset-paginated list route
+export function listSchemas(table: PgTable, pageSize: PageSize): ListSchemas {
+  const sortable: string[] = [];
+  const filters: Record<string, TSchema> = {};
+  let defaultSort: string | undefined;
+
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (column.primary) defaultSort ??= key;
+    const operators = FILTER_OPERATORS[column.dataType];
+    if (!operators) continue;
+    sortable.push(key, `-${key}`);
+    for (const op of operators) {
+      const schema = op === 'contains' || op === 'startsWith' ? Type.String({ minLength: 1 }) : columnSchema(column);
+      filters[`${key}[${op}]`] = Type.Optional(schema);
+    }
+  }
+
+  const query = Type.Object({
+    limit: Type.Integer({ minimum: 1, maximum: pageSize.max, default: pageSize.default }),
+    cursor: Type.Optional(Type.String({ description: 'Opaque token from a previous `next`/`prev` link' })),
+    sort: Type.Enum(sortable, {
+      default: defaultSort ?? sortable[0],
+      description: 'Column to order by, prefix with `-` for descending'
+    }),
+    count: Type.Boolean({ default: false, description: 'Include the total number of matching rows' }),
+    ...filters
+  });
+
+  const link = Type.Union([Type.String(), Type.Null()]);
+  const page = Type.Object({
+    data: Type.Array(tableSchemas(table).row),
+    next: link,
+    prev: link,
+    total: Type.Optional(Type.Integer())
+  });
+
+  return { query, page };
+}
+
+// Bodies of the bulk routes (at most `maxBatchSize` items) and their per-item report
+export function bulkSchemas(table: PgTable, maxBatchSize: number): BulkSchemas {
+  const { row, insert } = tableSchemas(table);
+
+  const item = Type.Object({
+    index: Type.Integer({ description: 'Position of the item in the request' }),
+    id: Type.Optional(Type.Integer()),
+    status: Type.Enum(['created', 'deleted', 'not_found', 'failed', 'rolled_back']),
+    row: Type.Optional(row),
+    error: Type.Optional(Type.String())
+  });
+
+  return {
+    insert: Type.Array(insert, { minItems: 1, maxItems: maxBatchSize }),
+    delete: Type.Object({
+      ids: Type.Array(Type.Integer({ minimum: 1 }), { minItems: 1, maxItems: maxBatchSize })
+    }),
+    result: Type.Object({
+      mode: BulkMode,
+      succeeded: Type.Integer(),
+      failed: Type.Integer(),
+      results: Type.Array(item)
+    }),
+    importQuery: Type.Object({
+      batchSize: Type.Integer({ minimum: 1, maximum: maxBatchSize, default: Math.min(500, maxBatchSize) })
+    })
+  };
+}
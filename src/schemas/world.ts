@@ -0,0 +1,9 @@
+import { world } from '../db/schema.js';
+import { tableSchemas } from './table.js';
+
+const schemas = tableSchemas(world);
+
+export const World = schemas.row;
+export const WorldInsert = schemas.insert;
+export const WorldPatch = schemas.patch;
+export const WorldList = schemas.list;
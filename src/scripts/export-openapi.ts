@@ -0,0 +1,27 @@
+import 'dotenv/config';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import Fastify from 'fastify';
+import fp from 'fastify-plugin';
+import app from '../app.js';
+
+// Writes the OpenAPI document to a file so clients can be generated offline.
+// Usage: node dist/scripts/export-openapi.js [output path, default openapi.json]
+const output = resolve(process.argv[2] || 'openapi.json');
+
+const fastify = Fastify({ logger: { level: 'warn' } });
+// fp() so the swagger decorator registered inside app is reachable from here
+fastify.register(fp(app));
+
+try {
+  await fastify.ready();
+  const spec = fastify.swagger();
+  await mkdir(dirname(output), { recursive: true });
+  await writeFile(output, JSON.stringify(spec, null, 2) + '\n');
+  console.log(`📄 OpenAPI spec written to ${output}`);
+} finally {
+  await fastify.close();
+}
+
+// The pg pool and cache backend can keep the event loop alive, exit explicitly
+process.exit(0);
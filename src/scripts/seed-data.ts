@@ -0,0 +1,130 @@
+import { parseArgs } from 'node:util';
+import { faker } from '@faker-js/faker';
+import pg from 'pg';
+import { config } from '../config.js';
+
+// Fills `world` and `fortune` with the TechEmpower dataset. The same options
+// and seed always produce the same rows, so environments can be compared.
+// Usage: node dist/scripts/seed-data.js [--world 10000] [--fortune 12] [--seed 1]
+//        [--mode upsert|truncate] [--batch-size 1000]
+const OPTIONS = {
+  world: { type: 'string', default: '10000' },
+  fortune: { type: 'string', default: '12' },
+  seed: { type: 'string', default: '1' },
+  mode: { type: 'string', default: 'upsert' },
+  'batch-size': { type: 'string', default: '1000' },
+  help: { type: 'boolean', short: 'h', default: false }
+} as const;
+
+const USAGE = `Usage: npm run seed -- [options]
+
+  --world <n>        world rows, ids 1..n (default 10000, the range the benchmark routes read)
+  --fortune <n>      fortune rows, the first 12 are the TechEmpower fortunes (default 12)
+  --seed <n>         faker seed, same seed = same data (default 1)
+  --mode <mode>      upsert: insert or overwrite ids 1..n, keep other rows (default)
+                     truncate: empty both tables and restart their id sequences first
+  --batch-size <n>   rows per INSERT (default 1000)`;
+
+// Messages required by the TechEmpower fortunes test, ids 1..12
+const TECHEMPOWER_FORTUNES = [
+  'fortune: No such file or directory',
+  "A computer scientist is someone who fixes things that aren't broken.",
+  'After enough decimal places, nobody gives a damn.',
+  'A bad random number generator: 1, 1, 1, 1, 1, 4.33e+67, 1, 1, 1',
+  'A computer program does what you tell it to do, not what you want it to do.',
+  'Emacs is a nice operating system, but I prefer UNIX. — Tom Christaensen',
+  'Any program that runs right is obsolete.',
+  'A list is only as strong as its weakest link. — Donald Knuth',
+  'Feature: A bug with seniority.',
+  'Computers make very fast, very accurate mistakes.',
+  '<script>alert("This should not be displayed in a browser alert box.");</script>',
+  'フレームワークのベンチマーク'
+];
+
+function count(name: string, value: string | undefined, min: number): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) {
+    console.error(`❌ --${name} must be an integer >= ${min}, got "${value}"`);
+    process.exit(1);
+  }
+  return n;
+}
+
+function parseOptions() {
+  try {
+    return parseArgs({ options: OPTIONS }).values;
+  } catch (e) {
+    console.error(`❌ ${(e as Error).message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+}
+
+const args = parseOptions();
+
+if (args.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const worldCount = count('world', args.world, 0);
+const fortuneCount = count('fortune', args.fortune, 0);
+const seed = count('seed', args.seed, 0);
+const batchSize = count('batch-size', args['batch-size'], 1);
+const mode = args.mode;
+if (mode !== 'upsert' && mode !== 'truncate') {
+  console.error(`❌ --mode must be upsert or truncate, got "${mode}"\n\n${USAGE}`);
+  process.exit(1);
+}
+
+if (!config.db.url) {
+  console.error('❌ DATABASE_URL is not set');
+  process.exit(1);
+}
+
+faker.seed(seed);
+const worldRows = Array.from({ length: worldCount }, (_, i) => [i + 1, faker.number.int({ min: 1, max: 10000 })]);
+const fortuneRows = Array.from({ length: fortuneCount }, (_, i) => [i + 1, TECHEMPOWER_FORTUNES[i] ?? faker.lorem.sentence()]);
+
+// One unnest() INSERT per batch. Ids are explicit, so the sequence is moved
+// past them afterwards or the API's next insert would collide.
+async function seedTable(client: pg.Client, table: string, columns: [string, string][], rows: unknown[][]) {
+  const names = columns.map(([name]) => `"${name}"`);
+  const arrays = columns.map(([, type], i) => `$${i + 1}::${type}[]`);
+  const updates = names.slice(1).map(name => `${name} = EXCLUDED.${name}`);
+  const text = `INSERT INTO "${table}" (${names.join(', ')}) SELECT * FROM unnest(${arrays.join(', ')}) ` +
+    `ON CONFLICT ("id") DO UPDATE SET ${updates.join(', ')}`;
+
+  for (let start = 0; start < rows.length; start += batchSize) {
+    const batch = rows.slice(start, start + batchSize);
+    await client.query(text, columns.map((_, i) => batch.map(row => row[i])));
+  }
+  await client.query(
+    `SELECT setval(pg_get_serial_sequence('"${table}"', 'id'), GREATEST((SELECT max("id") FROM "${table}"), 1))`
+  );
+  console.log(`   ${table}: ${rows.length} rows`);
+}
+
+const client = new pg.Client({ connectionString: config.db.url });
+const t0 = process.hrtime.bigint();
+
+try {
+  await client.connect();
+  console.log(`🌱 Seeding (${mode}, seed ${seed}, batches of ${batchSize})`);
+
+  await client.query('BEGIN');
+  if (mode === 'truncate') {
+    await client.query('TRUNCATE "world", "fortune" RESTART IDENTITY');
+  }
+  await seedTable(client, 'world', [['id', 'int'], ['randomNumber', 'int']], worldRows);
+  await seedTable(client, 'fortune', [['id', 'int'], ['message', 'text']], fortuneRows);
+  await client.query('COMMIT');
+
+  const ms = Number(process.hrtime.bigint() - t0) / 1e6;
+  console.log(`✅ Seeded in ${ms.toFixed(0)}ms. Cached rows may be stale: POST /api/cache/clear`);
+} catch (e) {
+  await client.query('ROLLBACK').catch(() => {});
+  console.error('❌ Seeding failed:', (e as Error).message);
+  process.exitCode = 1;
+} finally {
+  await client.end();
+}
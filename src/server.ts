@@ -1,49 +1,63 @@
-import 'dotenv/config';
 import cluster from 'node:cluster';
 import { availableParallelism } from 'node:os';
 import process from 'node:process';
 import Fastify from 'fastify';
 import app from './app.js';
+import { config } from './config.js';
+import { relayInvalidations } from './cache/invalidation.js';
+import { primaryRegister, reportMetrics, serveClusterMetrics } from './cluster-metrics.js';
+import { closePools, namedPools, register } from './db/connection.js';
+import { runMigrations } from './db/migrate.js';
+import { startDraining } from './lifecycle.js';
+import { setupActivityMetrics } from './db/pool-metrics.js';
+import { isShutdownMessage, superviseWorkers } from './supervisor.js';
 
 const numCPUs = availableParallelism();
 
 if (cluster.isPrimary) {
   console.log(`🚀 Primary ${process.pid} is running`);
+
+  // Migrate once here instead of racing from every worker
+  if (config.db.migrations.enabled) {
+    try {
+      const { applied, drift } = await runMigrations({ allowDrift: config.db.migrations.allowDrift });
+      console.log(`🗄️  Database schema up to date (${applied} migration${applied === 1 ? '' : 's'} applied)`);
+      for (const issue of drift) {
+        console.warn(`⚠️  Schema drift ignored: ${issue}`);
+      }
+    } catch (err) {
+      console.error('❌ Database migration failed:', (err as Error).message);
+      process.exit(1);
+    }
+  }
   
   // Fork workers (configurable via WORKERS env var, default to CPU count, max 12 to match PGPOOL_NUM_INIT_CHILDREN=1200)
-  const maxWorkers = parseInt(process.env.WORKERS || '0') || Math.min(numCPUs, 12);
+  const maxWorkers = config.server.workers || Math.min(numCPUs, 12);
   const numWorkers = Math.min(maxWorkers, 12);
   console.log(`🔥 Starting ${numWorkers} workers...`);
-  for (let i = 0; i < numWorkers; i++) {
-    cluster.fork();
-  }
+  // Restarts, rolling reload (SIGHUP) and shutdown (SIGTERM/SIGINT)
+  superviseWorkers(numWorkers);
+
+  // Fan out L1 cache invalidations from one worker to all the others
+  relayInvalidations();
+  // Merge every worker's metrics for /metrics. pg_stat_activity is the same
+  // from every process, so it is only queried here.
+  serveClusterMetrics();
+  setupActivityMetrics(namedPools, primaryRegister);
 
   cluster.on('online', (worker) => {
     console.log(`✅ Worker ${worker.process.pid} is online`);
   });
 
-  cluster.on('exit', (worker, code, signal) => {
-    console.log(`💀 Worker ${worker.process.pid} died (${signal || code}). Restarting...`);
-    cluster.fork();
-  });
-
-  // Graceful shutdown
-  process.on('SIGTERM', () => {
-    console.log('🛑 Primary received SIGTERM, shutting down gracefully...');
-    cluster.disconnect(() => {
-      process.exit(0);
-    });
-  });
-
 } else {
   // Worker process
   const fastify = Fastify({
     logger: {
-      level: process.env.LOG_LEVEL || 'info'
+      level: config.server.logLevel
     },
-    keepAliveTimeout: parseInt(process.env.FASTIFY_KEEP_ALIVE_TIMEOUT || '90000'),
-    connectionTimeout: parseInt(process.env.FASTIFY_CONNECTION_TIMEOUT || '30000'),
-    bodyLimit: parseInt(process.env.FASTIFY_BODY_LIMIT || '1048576'),
+    keepAliveTimeout: config.server.keepAliveTimeoutMs,
+    connectionTimeout: config.server.connectionTimeoutMs,
+    bodyLimit: config.server.bodyLimitBytes,
     maxParamLength: 500,
     ignoreTrailingSlash: true,
     caseSensitive: false,
@@ -55,11 +69,13 @@ if (cluster.isPrimary) {
   // Register the main app plugin
   fastify.register(app);
 
+  // Answer the primary's metrics collection, labelled with this worker's id
+  reportMetrics(register);
+
   // Start server
   const start = async () => {
     try {
-      const port = parseInt(process.env.PORT || '3000');
-      const host = process.env.HOST || '0.0.0.0';
+      const { port, host } = config.server;
       
       await fastify.listen({ port, host });
       console.log(`🌟 Worker ${process.pid} listening on http://${host}:${port}`);
@@ -69,5 +85,48 @@ if (cluster.isPrimary) {
     }
   };
 
+  // Graceful shutdown: fail readiness (for SHUTDOWN_READINESS_DELAY_MS), stop
+  // accepting connections, let in-flight requests finish (up to
+  // SHUTDOWN_TIMEOUT_MS), close the cache backend and pools, exit
+  let shuttingDown = false;
+  const shutdown = async (reason: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    const timeoutMs = config.server.shutdownTimeoutMs;
+    console.log(`🛑 Worker ${process.pid} draining (${reason})...`);
+    startDraining();
+    if (config.server.readinessDelayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, config.server.readinessDelayMs));
+    }
+
+    const deadline = setTimeout(() => {
+      console.warn(`⚠️  Worker ${process.pid} still busy after ${timeoutMs}ms, closing remaining connections`);
+      fastify.server.closeAllConnections();
+      // Last resort if a close hook hangs as well
+      setTimeout(() => process.exit(1), 5000).unref();
+    }, timeoutMs);
+    deadline.unref();
+
+    try {
+      // Runs the onClose hooks too (cache backend, invalidation bus)
+      await fastify.close();
+      await closePools();
+    } catch (err) {
+      fastify.log.error(err);
+      process.exitCode = 1;
+    } finally {
+      clearTimeout(deadline);
+    }
+    process.exit();
+  };
+
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('message', message => {
+    if (isShutdownMessage(message)) void shutdown('requested by primary');
+  });
+  // The primary is gone, nothing would restart or stop this worker
+  process.on('disconnect', () => void shutdown('primary exited'));
+
   start();
 } 
\ No newline at end of file
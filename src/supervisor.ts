@@ -0,0 +1,178 @@
+import cluster from 'node:cluster';
+import type { Worker } from 'node:cluster';
+import process from 'node:process';
+import { workerCrashes, workerRestarts } from './cluster-metrics.js';
+import { config } from './config.js';
+
+// Primary side of the cluster:
+// - crashed workers are re-forked after an exponential backoff
+// - WORKER_CRASH_LOOP_LIMIT crashes within the window open the breaker: no more
+//   restarts, and the primary exits once the last worker is gone so the
+//   platform restarts the whole container
+// - SIGHUP replaces workers one at a time, each only once its replacement listens
+// - SIGTERM/SIGINT let every worker drain, then exit
+
+// Sent to a worker that should stop accepting connections and exit (see server.ts)
+export interface ShutdownMessage {
+  type: 'worker:shutdown';
+}
+
+export function isShutdownMessage(message: unknown): message is ShutdownMessage {
+  return typeof message === 'object' && message !== null && (message as any).type === 'worker:shutdown';
+}
+
+// How long a replacement gets to start listening during a rolling restart
+const STARTUP_TIMEOUT_MS = 30000;
+// Extra time after SHUTDOWN_READINESS_DELAY_MS + SHUTDOWN_TIMEOUT_MS before a draining worker is killed
+const KILL_GRACE_MS = 5000;
+
+const SHUTDOWN: ShutdownMessage = { type: 'worker:shutdown' };
+
+export function superviseWorkers(size: number) {
+  const { restartDelayMs, restartMaxDelayMs, crashLoopLimit, crashLoopWindowMs } = config.supervisor;
+
+  // Workers we asked to exit, their exit is not a crash
+  const retiring = new Set<number>();
+  const restarts = new Set<NodeJS.Timeout>();
+  let crashes: number[] = [];
+  let breakerOpen = false;
+  let reloading = false;
+  let stopping = false;
+
+  const alive = () => Object.values(cluster.workers || {}).filter((w): w is Worker => !!w && !w.isDead());
+
+  function scheduleFork(delayMs: number) {
+    const timer = setTimeout(() => {
+      restarts.delete(timer);
+      if (stopping || breakerOpen) return;
+      workerRestarts.inc();
+      cluster.fork();
+    }, delayMs);
+    restarts.add(timer);
+  }
+
+  function cancelRestarts() {
+    for (const timer of restarts) clearTimeout(timer);
+    restarts.clear();
+  }
+
+  // Asks the worker to drain and resolves once it exited, killing it if it takes too long
+  function retire(worker: Worker): Promise<void> {
+    retiring.add(worker.id);
+    return new Promise(resolve => {
+      if (worker.isDead()) return resolve();
+      const kill = setTimeout(() => {
+        console.warn(`⚠️  Worker ${worker.process.pid} did not exit in time, killing it`);
+        worker.process.kill('SIGKILL');
+      }, config.server.readinessDelayMs + config.server.shutdownTimeoutMs + KILL_GRACE_MS);
+      worker.once('exit', () => {
+        clearTimeout(kill);
+        resolve();
+      });
+      if (worker.isConnected()) {
+        worker.send(SHUTDOWN, (err: Error | null) => err && worker.process.kill('SIGTERM'));
+      } else {
+        worker.process.kill('SIGTERM');
+      }
+    });
+  }
+
+  function listening(worker: Worker): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const fail = (reason: string) => {
+        clearTimeout(timer);
+        worker.off('exit', onExit);
+        worker.off('listening', onListening);
+        reject(new Error(`worker ${worker.process.pid} ${reason}`));
+      };
+      const onExit = (code: number, signal: string) => fail(`exited (${signal || code}) before listening`);
+      const onListening = () => {
+        clearTimeout(timer);
+        worker.off('exit', onExit);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        fail(`did not listen within ${STARTUP_TIMEOUT_MS}ms`);
+        void retire(worker);
+      }, STARTUP_TIMEOUT_MS);
+      worker.once('exit', onExit);
+      worker.once('listening', onListening);
+    });
+  }
+
+  cluster.on('exit', (worker, code, signal) => {
+    if (retiring.delete(worker.id) || stopping) return;
+
+    workerCrashes.inc();
+    const now = Date.now();
+    crashes = crashes.filter(t => now - t < crashLoopWindowMs);
+    crashes.push(now);
+
+    if (crashes.length >= crashLoopLimit) {
+      if (!breakerOpen) {
+        console.error(`🛑 ${crashes.length} worker crashes within ${crashLoopWindowMs / 1000}s, no more restarts (SIGHUP to retry)`);
+        breakerOpen = true;
+        cancelRestarts();
+      }
+      console.log(`💀 Worker ${worker.process.pid} died (${signal || code}), ${alive().length} left`);
+      if (alive().length === 0 && !reloading) {
+        console.error('❌ No workers left, exiting');
+        process.exit(1);
+      }
+      return;
+    }
+
+    // A replacement that failed during a rolling restart leaves the old worker running
+    if (alive().length + restarts.size >= size) {
+      console.log(`💀 Worker ${worker.process.pid} died (${signal || code})`);
+      return;
+    }
+    const delay = Math.min(restartDelayMs * 2 ** (crashes.length - 1), restartMaxDelayMs);
+    console.log(`💀 Worker ${worker.process.pid} died (${signal || code}). Restarting in ${delay}ms...`);
+    scheduleFork(delay);
+  });
+
+  async function reload() {
+    if (reloading || stopping) return;
+    reloading = true;
+    // An operator asked for a restart, likely after fixing whatever crashed
+    breakerOpen = false;
+    crashes = [];
+    cancelRestarts();
+
+    const old = alive();
+    console.log(`🔄 Rolling restart of ${old.length} workers...`);
+    try {
+      for (const worker of old) {
+        await listening(cluster.fork());
+        await retire(worker);
+      }
+      for (let i = alive().length; i < size; i++) cluster.fork();
+      console.log('✅ Rolling restart complete');
+    } catch (err) {
+      console.error(`❌ Rolling restart aborted, ${(err as Error).message}`);
+      if (alive().length === 0) process.exit(1);
+    } finally {
+      reloading = false;
+    }
+  }
+
+  async function stop(signal: string) {
+    if (stopping) return;
+    stopping = true;
+    cancelRestarts();
+    const workers = alive();
+    console.log(`🛑 Primary received ${signal}, draining ${workers.length} workers...`);
+    await Promise.all(workers.map(retire));
+    console.log('👋 All workers exited');
+    process.exit(0);
+  }
+
+  process.on('SIGHUP', () => void reload());
+  process.on('SIGTERM', () => void stop('SIGTERM'));
+  process.on('SIGINT', () => void stop('SIGINT'));
+
+  for (let i = 0; i < size; i++) {
+    cluster.fork();
+  }
+}
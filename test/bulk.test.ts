@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { useApp } from './helpers.js';
+
+const app = useApp({
+  database: 'pglite',
+  afterStart: async ({ db }) => {
+    await db.exec('INSERT INTO world (id, "randomNumber") VALUES (10001, 1), (10002, 2)');
+  }
+});
+
+test('a repeated id in a partial bulk-delete is deleted and reported once', async () => {
+  const res = await app.server.inject({
+    method: 'POST',
+    url: '/world/bulk-delete?mode=partial',
+    payload: { ids: [10001, 999999, 10001] }
+  });
+  assert.equal(res.statusCode, 207);
+  const report = res.json();
+  assert.equal(report.succeeded, 1);
+  assert.equal(report.failed, 1);
+  assert.deepEqual(report.results.map((r: { index: number; status: string }) => [r.index, r.status]), [
+    [0, 'deleted'],
+    [1, 'not_found']
+  ]);
+});
+
+test('a repeated id does not fail an atomic bulk-delete', async () => {
+  const res = await app.server.inject({
+    method: 'POST',
+    url: '/world/bulk-delete',
+    payload: { ids: [10002, 10002] }
+  });
+  assert.equal(res.statusCode, 200);
+  assert.equal(res.json().succeeded, 1);
+});
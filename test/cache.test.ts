@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { stubPool, useApp } from './helpers.js';
+
+// Every list query answers with the rows inserted so far
+const rows: { id: number; randomNumber: number }[] = [];
+const query = async (text: string) => {
+  if (/^INSERT/i.test(text)) {
+    rows.push({ id: rows.length + 1, randomNumber: 5 });
+    return { rows: [rows[rows.length - 1]], rowCount: 1 };
+  }
+  return { rows: [...rows], rowCount: rows.length };
+};
+let clears = 0;
+const app = useApp({
+  env: { CACHE_BACKEND: 'memory' },
+  beforeStart: ({ pool }) => stubPool(pool, query),
+  afterStart: ({ server }) => {
+    const backend = server.cacheBackend!;
+    const clear = backend.clear.bind(backend);
+    backend.clear = async (pattern) => { clears++; return await clear(pattern); };
+  }
+});
+
+test('a write retires the cached list pages without a pattern clear', async () => {
+  const first = await fetch(`${app.url}/world`);
+  assert.equal(first.headers.get('x-cache'), 'MISS');
+  assert.equal((await first.json()).data.length, 0);
+  assert.equal((await fetch(`${app.url}/world`)).headers.get('x-cache'), 'HIT');
+
+  const created = await fetch(`${app.url}/world`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ randomNumber: 5 })
+  });
+  assert.equal(created.status, 201);
+
+  const refilled = await fetch(`${app.url}/world`);
+  assert.equal(refilled.headers.get('x-cache'), 'MISS');
+  assert.equal((await refilled.json()).data.length, 1);
+  assert.equal(clears, 0);
+});
+
+test('the memory backend holds plain JSON, not codec-encoded values', async () => {
+  await app.server.cache.set('test:plain', { hello: 'world' }, 60);
+  assert.equal(await app.server.cacheBackend!.get('test:plain'), '{"v":{"hello":"world"}}');
+  assert.deepEqual(await app.server.cache.get('test:plain'), { hello: 'world' });
+});
+
+test('clearing the cache keeps the rate-limit buckets', async () => {
+  const backend = app.server.cacheBackend!;
+  await backend.takeTokens('ratelimit:test-client', { capacity: 2, refillPerSecond: 0.001 }, 2);
+  await app.server.cache.set('test:entry', 1, 60);
+
+  assert.ok(await app.server.cache.clear('*') >= 1);
+  assert.equal(await backend.exists('test:entry'), false);
+  const { allowed } = await backend.takeTokens('ratelimit:test-client', { capacity: 2, refillPerSecond: 0.001 }, 1);
+  assert.equal(allowed, false);
+});
@@ -0,0 +1,15 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { stubPool, useApp } from './helpers.js';
+
+const app = useApp({
+  beforeStart: ({ pool }) => stubPool(pool, async () => {
+    throw new Error('relation "world" does not exist');
+  })
+});
+
+test('a server error answers with the status text, not the database message', async () => {
+  const res = await app.server.inject({ method: 'GET', url: '/world/1' });
+  assert.equal(res.statusCode, 500);
+  assert.deepEqual(res.json(), { error: 'Internal Server Error' });
+});
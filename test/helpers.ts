@@ -0,0 +1,103 @@
+import { after, before } from 'node:test';
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import type { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import type { Pool } from 'pg';
+// Type-only, for the decorators plugins/redis.ts adds to FastifyInstance
+import type {} from '../src/plugins/redis.js';
+
+// Shared setup of the test files. The app and its config are only imported
+// inside `before`, so env vars set by a test file (or by useApp) apply to them.
+
+type Connection = typeof import('../src/db/connection.js');
+type QueryResult = { rows: unknown[]; rowCount: number };
+
+export interface TestApp {
+  server: FastifyInstance;
+  // Base URL of the listening server, e.g. http://127.0.0.1:41234
+  url: string;
+  // Set with `database: 'pglite'`
+  db: PGlite;
+}
+
+export interface TestAppOptions {
+  // Set before the config is loaded
+  env?: Record<string, string>;
+  // 'pglite' runs the migrations on an in-process Postgres and points DATABASE_URL at it
+  database?: 'pglite';
+  // Runs before the app is registered, e.g. to stub the pools
+  beforeStart?: (connection: Connection) => void | Promise<void>;
+  // Registered after the app
+  plugins?: FastifyPluginAsync[];
+  // Runs once the server listens, e.g. to seed rows. Root-level `before` hooks
+  // of a test file don't wait for each other on Node 20, so setup goes here.
+  afterStart?: (app: TestApp) => void | Promise<void>;
+}
+
+export interface Pglite {
+  db: PGlite;
+  connectionString: string;
+  stop(): Promise<void>;
+}
+
+// A real Postgres in-process: PGlite behind the wire protocol, so pg connects as usual.
+// It serves one connection at a time.
+export async function startPglite(): Promise<Pglite> {
+  const db = await PGlite.create();
+  const server = new PGLiteSocketServer({ db, port: 0, host: '127.0.0.1' });
+  await server.start();
+  return {
+    db,
+    connectionString: `postgresql://postgres@${server.getServerConn()}/postgres`,
+    async stop() {
+      await server.stop();
+      await db.close();
+    }
+  };
+}
+
+// Answers every query on `pool`, and on the clients it hands out, with `query`
+export function stubPool(pool: Pool, query: (text: string, values?: unknown[]) => Promise<QueryResult>) {
+  Object.assign(pool, { query, connect: async () => ({ query, release() {} }) });
+}
+
+// Starts the app on a random local port before the tests of the file, and stops it after them
+export function useApp(options: TestAppOptions = {}): TestApp {
+  const app = {} as TestApp;
+  let pglite: Pglite | undefined;
+  let connection: Connection;
+
+  before(async () => {
+    Object.assign(process.env, options.env);
+    if (options.database === 'pglite') {
+      pglite = await startPglite();
+      app.db = pglite.db;
+      Object.assign(process.env, { DATABASE_URL: pglite.connectionString, DB_POOL_MAX: '1', DB_POOL_MIN: '0' });
+      const { runMigrations } = await import('../src/db/migrate.js');
+      await runMigrations();
+    }
+
+    connection = await import('../src/db/connection.js');
+    await options.beforeStart?.(connection);
+
+    const { default: Fastify } = await import('fastify');
+    const { default: fp } = await import('fastify-plugin');
+    const { default: appPlugin } = await import('../src/app.js');
+    app.server = Fastify();
+    app.server.register(fp(appPlugin));
+    for (const plugin of options.plugins ?? []) app.server.register(plugin);
+    await app.server.listen({ port: 0, host: '127.0.0.1' });
+    app.url = `http://127.0.0.1:${(app.server.server.address() as { port: number }).port}`;
+    await options.afterStart?.(app);
+  });
+
+  after(async () => {
+    await app.server?.close();
+    if (pglite) {
+      await connection.closePools();
+      await pglite.stop();
+    }
+  });
+
+  return app;
+}
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { beforeEach, test } from 'node:test';
+import type { PoolClient } from 'pg';
+import { useApp } from './helpers.js';
+
+// INSERTs into world are counted and answered after `insertDelayMs`; `corruptRow`
+// swaps the returned id for one the response schema rejects
+let inserts = 0;
+let insertDelayMs = 0;
+let corruptRow = false;
+const app = useApp({
+  database: 'pglite',
+  beforeStart: ({ pool }) => {
+    pool.on('connect', (client: PoolClient) => {
+      const query = client.query.bind(client) as (...args: unknown[]) => Promise<{ rows: Record<string, unknown>[] }>;
+      Object.assign(client, {
+        query: async (...args: unknown[]) => {
+          if (!/^INSERT INTO "world"/.test(String(args[0]))) return await query(...args);
+          inserts++;
+          await new Promise(resolve => setTimeout(resolve, insertDelayMs));
+          const res = await query(...args);
+          if (corruptRow) res.rows[0].id = 'not a number';
+          return res;
+        }
+      });
+    });
+  }
+});
+
+beforeEach(() => {
+  inserts = 0;
+  insertDelayMs = 0;
+  corruptRow = false;
+});
+
+const createWorld = (key: string, signal?: AbortSignal) => fetch(`${app.url}/world`, {
+  method: 'POST',
+  headers: { 'content-type': 'application/json', 'idempotency-key': key },
+  body: JSON.stringify({ randomNumber: 5 }),
+  signal
+});
+
+test('a retry after the client gave up gets the stored response instead of inserting again', async () => {
+  insertDelayMs = 300;
+  await assert.rejects(createWorld('abort-1', AbortSignal.timeout(100)));
+  await new Promise(resolve => setTimeout(resolve, 400));
+
+  const retry = await createWorld('abort-1');
+  assert.equal(retry.status, 201);
+  assert.equal(retry.headers.get('idempotent-replayed'), 'true');
+  assert.equal(inserts, 1);
+});
+
+test('a 5xx after the write committed is replayed, not retried', async () => {
+  // Fails response serialization once the INSERT is done
+  corruptRow = true;
+  const first = await createWorld('error-1');
+  assert.equal(first.status, 500);
+
+  const retry = await createWorld('error-1');
+  assert.equal(retry.status, 500);
+  assert.equal(retry.headers.get('idempotent-replayed'), 'true');
+  assert.equal(inserts, 1);
+});
+
+test('clearing the cache does not forget a stored response', async () => {
+  const first = await createWorld('clear-1');
+  assert.equal(first.status, 201);
+  const cleared = await fetch(`${app.url}/api/cache/clear`, { method: 'POST' });
+  assert.equal(cleared.status, 200);
+
+  const retry = await createWorld('clear-1');
+  assert.equal(retry.status, 201);
+  assert.equal(retry.headers.get('idempotent-replayed'), 'true');
+  assert.deepEqual(await retry.json(), await first.json());
+  assert.equal(inserts, 1);
+});
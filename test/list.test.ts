@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { useApp } from './helpers.js';
+
+const app = useApp({
+  database: 'pglite',
+  afterStart: async ({ db }) => {
+    await db.exec('INSERT INTO world (id, "randomNumber") VALUES (1, 10), (2, 20), (3, 30)');
+  }
+});
+
+const cursor = (parts: unknown[]) => Buffer.from(JSON.stringify(parts)).toString('base64url');
+const list = (query: string) => app.server.inject({ method: 'GET', url: `/world?${query}` });
+
+test('a cursor from a next link walks to the next page', async () => {
+  const first = await list('limit=2&sort=randomNumber');
+  assert.equal(first.statusCode, 200);
+  const next = await app.server.inject({ method: 'GET', url: first.json().next });
+  assert.equal(next.statusCode, 200);
+  assert.deepEqual(next.json().data.map((row: { id: number }) => row.id), [3]);
+});
+
+test('a cursor holding values its columns cannot hold is answered 400', async () => {
+  for (const [sort, parts] of [
+    ['id', ['id', 1, 'abc', 'next']],
+    ['id', ['id', 1, 1.5, 'next']],
+    ['id', ['id', 1, 1e12, 'next']],
+    ['randomNumber', ['randomNumber', { a: 1 }, 1, 'next']],
+    ['randomNumber', ['randomNumber', '10', 1, 'prev']]
+  ] as const) {
+    const res = await list(`sort=${sort}&cursor=${cursor([...parts])}`);
+    assert.equal(res.statusCode, 400, JSON.stringify(parts));
+    assert.equal(res.json().details[0].field, 'querystring.cursor');
+  }
+});
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import pg from 'pg';
+import { runMigrations } from '../src/db/migrate.js';
+import { Pglite, startPglite } from './helpers.js';
+
+let pglite: Pglite;
+let connectionString: string;
+
+before(async () => {
+  pglite = await startPglite();
+  connectionString = pglite.connectionString;
+});
+
+after(async () => {
+  await pglite.stop();
+});
+
+test('migrates an empty database, then finds nothing left to apply', async () => {
+  const first = await runMigrations({ connectionString });
+  assert.ok(first.applied > 0);
+  assert.deepEqual(first.drift, []);
+
+  const client = new pg.Client({ connectionString });
+  await client.connect();
+  try {
+    const tables = await client.query("SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'");
+    assert.ok(tables.rows.some(r => r.table_name === 'world'));
+  } finally {
+    await client.end();
+  }
+
+  const second = await runMigrations({ connectionString });
+  assert.equal(second.applied, 0);
+});
@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { stubPool, useApp } from './helpers.js';
+
+const app = useApp({
+  beforeStart: ({ pool }) => stubPool(pool, async () => ({ rows: [{ id: 1, randomNumber: 5 }], rowCount: 1 })),
+  // Slow startup work: a second of blocked event loop before the server is ready
+  plugins: [async () => {
+    const until = Date.now() + 1000;
+    while (Date.now() < until);
+  }]
+});
+
+test('startup work does not count as event-loop lag', async () => {
+  const res = await fetch(`${app.url}/world/1`);
+  assert.equal(res.status, 200);
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { stubPool, useApp } from './helpers.js';
+
+// The primary has the written row, the replica lags behind with the old one
+let primaryValue = 1;
+const replicaValue = 1;
+const answer = (value: () => number) => async (text: string) => {
+  if (/^UPDATE/i.test(text)) primaryValue = 2;
+  return /world/i.test(text) ? { rows: [{ id: 7, randomNumber: value() }], rowCount: 1 } : { rows: [], rowCount: 0 };
+};
+// A replica that is down refuses connections and queries alike
+let replicaDown = false;
+const replica = answer(() => replicaValue);
+const app = useApp({
+  // One replica and an in-process cache
+  env: { DATABASE_REPLICA_URLS: 'postgresql://replica.invalid/app', CACHE_BACKEND: 'memory' },
+  beforeStart: ({ pool, replicaPools }) => {
+    stubPool(pool, answer(() => primaryValue));
+    stubPool(replicaPools[0], async (text) => {
+      if (replicaDown) throw new Error('connect ECONNREFUSED');
+      return await replica(text);
+    });
+    const connect = replicaPools[0].connect;
+    Object.assign(replicaPools[0], {
+      connect: async () => {
+        if (replicaDown) throw new Error('connect ECONNREFUSED');
+        return await connect();
+      }
+    });
+  }
+});
+
+test('a cache miss right after a write is filled from the primary, not the lagging replica', async () => {
+  const write = await fetch(`${app.url}/world/7`, {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ randomNumber: 2 })
+  });
+  assert.equal(write.status, 200);
+  const cookie = write.headers.get('set-cookie')!.split(';')[0];
+
+  // Another client, without the pin cookie
+  const miss = await fetch(`${app.url}/world/7`);
+  assert.equal(miss.headers.get('x-cache'), 'MISS');
+  assert.equal((await miss.json()).randomNumber, 2);
+  const hit = await fetch(`${app.url}/world/7`);
+  assert.equal(hit.headers.get('x-cache'), 'HIT');
+  assert.equal((await hit.json()).randomNumber, 2);
+
+  // The writer itself reads the primary, past the cache
+  const pinned = await fetch(`${app.url}/world/7`, { headers: { cookie } });
+  assert.equal(pinned.headers.get('x-cache'), 'BYPASS');
+  assert.equal((await pinned.json()).randomNumber, 2);
+});
+
+test('the benchmark reads fall back to the primary when the replica is down', async () => {
+  replicaDown = true;
+  const queries = await fetch(`${app.url}/queries?count=3`);
+  assert.equal(queries.status, 200);
+  assert.deepEqual((await queries.json()).map((row: { randomNumber: number }) => row.randomNumber), [2, 2, 2]);
+
+  const fortunes = await fetch(`${app.url}/fortunes`);
+  assert.equal(fortunes.status, 200);
+});